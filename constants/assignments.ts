@@ -0,0 +1,48 @@
+/**
+ * An assignment and the rules for recognizing its rows in a dataset
+ */
+export interface AssignmentDefinition {
+  id: string;
+  specSource: string; // Raw markdown sent to the model: URL or local file path
+  pageUrl: string; // Rendered page named in the prompt
+  datasetPattern: RegExp; // Matched against the dataset file name
+  // Matched against a row's title and part columns. Only the assignment's own
+  // names (cybN, hwN): topic words such as "recipe" recur in later assignments
+  rowPatterns: RegExp[];
+}
+
+const RAW_BASE =
+  "https://raw.githubusercontent.com/neu-pdi/cs3100-public-resources/refs/heads/main/assignments";
+const PAGE_BASE =
+  "https://neu-pdi.github.io/cs3100-public-resources/assignments";
+
+export const ASSIGNMENTS: AssignmentDefinition[] = [
+  {
+    id: "cyb1-recipes",
+    specSource: `${RAW_BASE}/cyb1-recipes.md`,
+    pageUrl: `${PAGE_BASE}/cyb1-recipes`,
+    datasetPattern: /^hw1[_\-.]/i,
+    rowPatterns: [/\bcyb\s*-?1\b/i, /\bhw\s*-?1\b/i],
+  },
+  {
+    id: "cyb2-unit-conversion",
+    specSource: `${RAW_BASE}/cyb2-unit-conversion.md`,
+    pageUrl: `${PAGE_BASE}/cyb2-unit-conversion`,
+    datasetPattern: /^hw2[_\-.]/i,
+    rowPatterns: [/\bcyb\s*-?2\b/i, /\bhw\s*-?2\b/i],
+  },
+  {
+    id: "cyb3-json-serialization",
+    specSource: `${RAW_BASE}/cyb3-json-serialization.md`,
+    pageUrl: `${PAGE_BASE}/cyb3-json-serialization`,
+    datasetPattern: /^hw3[_\-.]/i,
+    rowPatterns: [/\bcyb\s*-?3\b/i, /\bhw\s*-?3\b/i],
+  },
+  {
+    id: "cyb4-testing",
+    specSource: `${RAW_BASE}/cyb4-testing.md`,
+    pageUrl: `${PAGE_BASE}/cyb4-testing`,
+    datasetPattern: /^hw4[_\-.]/i,
+    rowPatterns: [/\bcyb\s*-?4\b/i, /\bhw\s*-?4\b/i],
+  },
+];
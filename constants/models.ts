@@ -1,4 +1,8 @@
-export type LlmProvider = "azure" | "openrouter";
+import type { ModelPricing } from "../scripts/classes/providers/pricing.js";
+import type { GenerationParams } from "../scripts/classes/providers/providerTypes.js";
+
+export type LlmProvider =
+  "azure" | "openrouter" | "anthropic" | "local" | "mock";
 
 export const AZURE_MODELS = [
   // "gpt-4o",
@@ -21,9 +25,144 @@ export const OPENROUTER_MODELS = [
   // "google/gemini-2.5-flash-lite",
 ];
 
+// Native Anthropic Messages API (prompt caching for the assignment spec)
+export const ANTHROPIC_MODELS = [
+  "claude-sonnet-4-6",
+  // "claude-haiku-4-5",
+];
+
+// Open-weight models served by an OpenAI-compatible server (LOCAL_LLM_BASE_URL)
+export const LOCAL_MODELS = [
+  "llama3.1:8b",
+  // "qwen2.5:14b-instruct",
+  // "gemma2:9b",
+];
+
+// Offline provider for pipeline runs without network or API keys
+export const MOCK_MODELS = ["mock/feedbot-template"];
+
 export const MODELS_BY_PROVIDER: Record<LlmProvider, string[]> = {
   azure: AZURE_MODELS,
   openrouter: OPENROUTER_MODELS,
+  anthropic: ANTHROPIC_MODELS,
+  local: LOCAL_MODELS,
+  mock: MOCK_MODELS,
+};
+
+/**
+ * A concrete model to send requests to. provider defaults to the run's.
+ */
+export interface ModelTarget {
+  provider?: LlmProvider;
+  model: string;
+}
+
+export type ResolvedModelTarget = Required<ModelTarget>;
+
+// Tried in order when a model keeps failing (unavailable, missing deployment,
+// or still erroring after the rate limiter's retries). Only used with
+// --fallback; fallbacks on another provider also need
+// --fallback-cross-provider and that provider's credentials.
+export const MODEL_FALLBACKS: Record<string, ModelTarget[]> = {
+  "gpt-5-mini": [{ provider: "openrouter", model: "openai/gpt-4o-mini" }],
+  "anthropic/claude-sonnet-4.6": [
+    { model: "anthropic/claude-haiku-4.5" },
+    { model: "openai/gpt-4o-mini" },
+  ],
+  "claude-sonnet-4-6": [
+    { model: "claude-haiku-4-5" },
+    { provider: "openrouter", model: "openai/gpt-4o-mini" },
+  ],
+  "mock/feedbot-template": [{ model: "mock/feedbot-fallback" }],
+};
+
+/**
+ * Generation parameters for a model, and whether it accepts sampling
+ * parameters at all
+ */
+export interface GenerationProfile extends GenerationParams {
+  supportsTemperature?: boolean; // false: temperature and topP are never sent
+}
+
+// Every model starts from this; a low temperature keeps hints consistent.
+// maxTokens is left to the provider unless a profile sets it: OpenRouter and
+// Anthropic requests are capped at 500 tokens, Azure and local servers use
+// the model's own limit.
+export const DEFAULT_GENERATION_PROFILE: GenerationProfile = {
+  temperature: 0.2,
+};
+
+// Applied over the judge model's own profile for --judge requests. A judge
+// picks a hint rather than writing one, so it samples greedily; prompt
+// variation overrides and sample seeds are for hints and do not apply.
+export const JUDGE_GENERATION_PROFILE: GenerationProfile = {
+  temperature: 0,
+};
+
+// Reasoning models only accept their default sampling, and their reasoning
+// tokens count against maxTokens
+const REASONING_MODEL_PROFILE: GenerationProfile = {
+  supportsTemperature: false,
+  maxTokens: 4000,
+};
+
+// Overrides of DEFAULT_GENERATION_PROFILE by model id. An entry without a
+// provider prefix also applies to the prefixed id ("gpt-5-mini" covers
+// "openai/gpt-5-mini"). Prompt variations can override these again, see
+// PROMPT_GENERATION_OVERRIDES; FEEDBOT_GENERATION can name a JSON file with
+// more of both.
+export const MODEL_GENERATION_PROFILES: Record<string, GenerationProfile> = {
+  "gpt-5": REASONING_MODEL_PROFILE,
+  "gpt-5-mini": REASONING_MODEL_PROFILE,
+  "gpt-5-nano": REASONING_MODEL_PROFILE,
+  o1: REASONING_MODEL_PROFILE,
+  "o1-mini": REASONING_MODEL_PROFILE,
+};
+
+// USD per million tokens, used where a provider does not report cost and for
+// dry-run estimates (npm run feedbot:estimate).
+// Local models default to free; add entries (or point LOCAL_LLM_PRICING at a
+// JSON file of the same shape) to account for hardware or electricity.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-5-mini": {
+    inputPerMillionUSD: 0.25,
+    outputPerMillionUSD: 2,
+    cacheReadPerMillionUSD: 0.025,
+  },
+  "anthropic/claude-sonnet-4.6": {
+    inputPerMillionUSD: 3,
+    outputPerMillionUSD: 15,
+    cacheReadPerMillionUSD: 0.3,
+    cacheWritePerMillionUSD: 3.75,
+  },
+  "anthropic/claude-haiku-4.5": {
+    inputPerMillionUSD: 1,
+    outputPerMillionUSD: 5,
+    cacheReadPerMillionUSD: 0.1,
+    cacheWritePerMillionUSD: 1.25,
+  },
+  "openai/gpt-4o-mini": {
+    inputPerMillionUSD: 0.15,
+    outputPerMillionUSD: 0.6,
+    cacheReadPerMillionUSD: 0.075,
+  },
+  "claude-sonnet-4-6": {
+    inputPerMillionUSD: 3,
+    outputPerMillionUSD: 15,
+    cacheReadPerMillionUSD: 0.3,
+    cacheWritePerMillionUSD: 3.75,
+  },
+  "claude-haiku-4-5": {
+    inputPerMillionUSD: 1,
+    outputPerMillionUSD: 5,
+    cacheReadPerMillionUSD: 0.1,
+    cacheWritePerMillionUSD: 1.25,
+  },
+  "llama3.1:8b": { inputPerMillionUSD: 0, outputPerMillionUSD: 0 },
+  "mock/feedbot-template": {
+    inputPerMillionUSD: 0.15,
+    outputPerMillionUSD: 0.6,
+  },
 };
 
 // Backward compatible default
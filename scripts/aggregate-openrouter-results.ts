@@ -1,40 +1,25 @@
-import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
-import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { writeFileSync } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { OPENROUTER_MODELS } from "../constants/models.js";
 import { DATASET } from "../constants/spreadsheets.js";
+import { AssignmentRegistry } from "./classes/AssignmentRegistry.js";
+import { CitationChecker, formatCitations } from "./classes/CitationChecker.js";
+import { LeakDetector } from "./classes/LeakDetector.js";
+import { PromptGenerator } from "./classes/PromptGenerator.js";
+import { PromptTemplateLibrary } from "./classes/PromptTemplates.js";
+import { formatFallbackFrequency } from "./classes/ResultsAggregator.js";
+import { ResultsStore } from "./classes/ResultsStore.js";
+import { formatRunSummary, type RunManifest } from "./classes/RunManifest.js";
+import { SpecLoader } from "./classes/SpecLoader.js";
 import {
-  normalizeEvaluationRow,
-  type EvaluationRow,
-  type RawEvaluationRow,
-} from "./classes/PromptGenerator.js";
+  DIAGNOSIS_COLUMNS,
+  diagnosisColumns,
+} from "./classes/StructuredHint.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-type ProgressFile = {
-  model: string;
-  prompt: string;
-  filename: string;
-};
-
-type StateFile = {
-  processed: {
-    [fingerprint: string]: {
-      hint: string;
-      timestamp: string;
-      usage?: {
-        promptTokens?: number;
-        completionTokens?: number;
-        totalTokens?: number;
-        costUSD?: number;
-        responseId?: string;
-      };
-    };
-  };
-};
-
 type OpenRouterResultRow = {
   model: string;
   prompt: string;
@@ -56,61 +41,21 @@ type OpenRouterResultRow = {
   total_tokens: string;
   cost_usd: string;
   response_id: string;
-  state_file: string;
+  leaked: string;
+  leak_values: string;
+  citations: string;
+  hallucinated_citations: string;
+  served_by: string; // The fallback that answered, if any
+  prompt_reconstructed: string; // Empty for results imported from before the marker
+  // From JSON output mode; empty for prose hints
+  category: string;
+  location: string;
+  spec_section: string;
+  next_step: string;
+  run_id: string;
+  source: string;
 };
 
-function safeDecode(value: string): string {
-  try {
-    return decodeURIComponent(value);
-  } catch {
-    return value;
-  }
-}
-
-function discoverOpenRouterProgressFiles(outputDir: string): ProgressFile[] {
-  const files = readdirSync(outputDir);
-  const openRouterModelSet = new Set(OPENROUTER_MODELS);
-  const results: ProgressFile[] = [];
-
-  for (const filename of files) {
-    const match = filename.match(/^feedbot_progress_m-(.+)_p-(.+)\.json$/);
-    if (!match) {
-      continue;
-    }
-
-    const encodedModel = match[1];
-    const encodedPrompt = match[2];
-    if (!encodedModel || !encodedPrompt) {
-      continue;
-    }
-
-    const model = safeDecode(encodedModel);
-    const prompt = safeDecode(encodedPrompt);
-
-    if (!openRouterModelSet.has(model)) {
-      continue;
-    }
-
-    results.push({ model, prompt, filename });
-  }
-
-  return results;
-}
-
-function loadStateFile(filePath: string): StateFile | null {
-  if (!existsSync(filePath)) {
-    return null;
-  }
-
-  try {
-    const content = readFileSync(filePath, "utf-8");
-    return JSON.parse(content) as StateFile;
-  } catch (error) {
-    console.warn(`Failed to read ${filePath}:`, error);
-    return null;
-  }
-}
-
 function formatMaybeNumber(value: number | undefined): string {
   return value === undefined ? "" : String(value);
 }
@@ -170,66 +115,101 @@ function buildMarkdown(rows: OpenRouterResultRow[]): string {
   const markdownPath = path.join(outputDir, "openrouter_aggregated_results.md");
   const datasetPath = path.join(__dirname, DATASET);
 
-  console.log("Aggregating OpenRouter progress files...");
+  console.log("Aggregating OpenRouter results...");
+  const store = new ResultsStore();
 
-  const progressFiles = discoverOpenRouterProgressFiles(outputDir);
-  if (progressFiles.length === 0) {
-    console.error("No OpenRouter progress files found in feedbotOutput.");
-    return;
+  // --run <runId> limits the report to hints written by that run
+  const args = process.argv.slice(2);
+  const runIndex = args.indexOf("--run");
+  let run: RunManifest | undefined;
+  if (runIndex !== -1) {
+    run = store.requireRun(args[runIndex + 1] ?? "");
+    console.log(formatRunSummary(run));
   }
 
-  const datasetContent = readFileSync(datasetPath, "utf-8");
-  const datasetRows = parse(datasetContent, {
-    columns: true,
-    skip_empty_lines: true,
-  }) as RawEvaluationRow[];
-
-  const normalizedDatasetRows: EvaluationRow[] = datasetRows.map((row) =>
-    normalizeEvaluationRow(row),
-  );
-
-  const metadataByFingerprint: Record<string, EvaluationRow> = {};
-  for (const row of normalizedDatasetRows) {
-    metadataByFingerprint[row.fingerprint] = row;
+  const filter = {
+    status: "processed" as const,
+    models: OPENROUTER_MODELS,
+    ...(run ? { runId: run.runId } : {}),
+  };
+  const results = store.getResults(filter);
+  if (results.length === 0) {
+    console.error(`No OpenRouter results found in ${store.dbPath}.`);
+    return;
   }
 
-  const aggregatedRows: OpenRouterResultRow[] = [];
+  const metadataByFingerprint = store.getRows();
 
-  for (const progressFile of progressFiles) {
-    const statePath = path.join(outputDir, progressFile.filename);
-    const state = loadStateFile(statePath);
+  const aggregatedRows: OpenRouterResultRow[] = [];
+  const leakDetector = new LeakDetector();
+  const citationChecker = new CitationChecker();
+  // Specs for re-checking older entries come from the cache only
+  const promptGenerator = new PromptGenerator(
+    new AssignmentRegistry(datasetPath),
+    new PromptTemplateLibrary(),
+    new SpecLoader({ offline: true, allowMissing: true }),
+  );
 
-    if (!state) {
+  for (const stored of results) {
+    if (stored.status !== "processed") {
       continue;
     }
-
-    for (const [fingerprint, result] of Object.entries(state.processed)) {
-      const row = metadataByFingerprint[fingerprint];
-
-      aggregatedRows.push({
-        model: progressFile.model,
-        prompt: progressFile.prompt,
-        fingerprint,
-        name: row?.name ?? "",
-        score: row?.score ?? "",
-        max_score: row?.max_score ?? "",
-        is_active: row ? String(row.is_active) : "",
-        title: row?.title ?? "",
-        profile_id: row?.profile_id ?? "",
-        id: row?.id ?? "",
-        part: row?.part ?? "",
-        grader_result_id: row?.grader_result_id ?? "",
-        original_error_output: row?.output ?? "",
-        timestamp: result.timestamp,
-        hint: result.hint,
-        prompt_tokens: formatMaybeNumber(result.usage?.promptTokens),
-        completion_tokens: formatMaybeNumber(result.usage?.completionTokens),
-        total_tokens: formatMaybeNumber(result.usage?.totalTokens),
-        cost_usd: formatMaybeCost(result.usage?.costUSD),
-        response_id: result.usage?.responseId ?? "",
-        state_file: progressFile.filename,
-      });
-    }
+    const { fingerprint, entry: result } = stored;
+
+    const row = metadataByFingerprint.get(fingerprint);
+    // Results imported from older progress files predate leak detection,
+    // so check them here
+    const leak =
+      result.leak ?? (row ? leakDetector.check(result.hint, row) : undefined);
+    const citations =
+      result.citations ??
+      (row
+        ? citationChecker.check(
+            result.hint,
+            (await promptGenerator.loadSpec(row)).content,
+          )
+        : undefined);
+
+    aggregatedRows.push({
+      model: stored.model,
+      prompt: stored.promptVariation,
+      fingerprint,
+      name: row?.name ?? "",
+      score: row?.score ?? "",
+      max_score: row?.max_score ?? "",
+      is_active: row ? String(row.is_active) : "",
+      title: row?.title ?? "",
+      profile_id: row?.profile_id ?? "",
+      id: row?.id ?? "",
+      part: row?.part ?? "",
+      grader_result_id: row?.grader_result_id ?? "",
+      original_error_output: row?.output ?? "",
+      timestamp: result.timestamp,
+      hint: result.hint,
+      prompt_tokens: formatMaybeNumber(result.usage?.promptTokens),
+      completion_tokens: formatMaybeNumber(result.usage?.completionTokens),
+      total_tokens: formatMaybeNumber(result.usage?.totalTokens),
+      cost_usd: formatMaybeCost(result.usage?.costUSD),
+      response_id: result.usage?.responseId ?? "",
+      leaked: leak ? String(leak.leaked) : "",
+      leak_values: leak ? leak.matches.map((m) => m.value).join(" | ") : "",
+      citations: citations ? formatCitations(citations) : "",
+      hallucinated_citations: citations
+        ? citations.hallucinated.join("; ")
+        : "",
+      served_by: result.servedBy
+        ? `${result.servedBy.provider}:${result.servedBy.model}`
+        : "",
+      prompt_reconstructed:
+        result.promptReconstructed !== undefined
+          ? String(result.promptReconstructed)
+          : "",
+      ...(result.diagnosis
+        ? diagnosisColumns(result.diagnosis)
+        : { category: "", location: "", spec_section: "", next_step: "" }),
+      run_id: result.runId ?? "",
+      source: stored.source,
+    });
   }
 
   aggregatedRows.sort((a, b) => {
@@ -260,7 +240,15 @@ function buildMarkdown(rows: OpenRouterResultRow[]): string {
     "total_tokens",
     "cost_usd",
     "response_id",
-    "state_file",
+    "leaked",
+    "leak_values",
+    "citations",
+    "hallucinated_citations",
+    "served_by",
+    "prompt_reconstructed",
+    ...DIAGNOSIS_COLUMNS,
+    "run_id",
+    "source",
   ];
 
   const csvData = stringify(aggregatedRows, {
@@ -274,4 +262,33 @@ function buildMarkdown(rows: OpenRouterResultRow[]): string {
   console.log(`OpenRouter CSV written: ${csvPath}`);
   console.log(`OpenRouter Markdown written: ${markdownPath}`);
   console.log(`Rows aggregated: ${aggregatedRows.length}`);
+
+  // Rank prompt strategies by how often their hints repeat log values
+  const leakStats = new Map<string, { leaked: number; checked: number }>();
+  for (const row of aggregatedRows) {
+    if (row.leaked === "") {
+      continue;
+    }
+    const key = `${row.model} + ${row.prompt}`;
+    const stats = leakStats.get(key) ?? { leaked: 0, checked: 0 };
+    stats.checked++;
+    if (row.leaked === "true") {
+      stats.leaked++;
+    }
+    leakStats.set(key, stats);
+  }
+
+  console.log("\nLeak rate by model+prompt (lowest first):");
+  [...leakStats.entries()]
+    .sort(([, a], [, b]) => a.leaked / a.checked - b.leaked / b.checked)
+    .forEach(([key, { leaked, checked }]) => {
+      const rate = ((leaked / checked) * 100).toFixed(1);
+      console.log(`  ${key}: ${leaked}/${checked} (${rate}%)`);
+    });
+
+  const fallbackLines = formatFallbackFrequency(store.getFallbackStats(filter));
+  if (fallbackLines.length > 0) {
+    console.log("\nHints answered by a fallback model:");
+    fallbackLines.forEach((line) => console.log(line));
+  }
 })();
@@ -1,86 +1,24 @@
-import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
-import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { writeFileSync } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { DATASET } from "../constants/spreadsheets";
+import { AssignmentRegistry } from "./classes/AssignmentRegistry.js";
+import { CitationChecker, formatCitations } from "./classes/CitationChecker.js";
+import { LeakDetector } from "./classes/LeakDetector.js";
+import { PromptGenerator } from "./classes/PromptGenerator.js";
+import { PromptTemplateLibrary } from "./classes/PromptTemplates.js";
+import { formatFallbackFrequency } from "./classes/ResultsAggregator.js";
+import { ResultsStore } from "./classes/ResultsStore.js";
+import { formatRunSummary, type RunManifest } from "./classes/RunManifest.js";
+import { SpecLoader } from "./classes/SpecLoader.js";
 import {
-  normalizeEvaluationRow,
-  type EvaluationRow,
-  type RawEvaluationRow,
-} from "./classes/PromptGenerator.js";
+  DIAGNOSIS_COLUMNS,
+  diagnosisColumns,
+} from "./classes/StructuredHint.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-// Discover actual progress files instead of using hardcoded constants
-function safeDecode(value: string): string {
-  try {
-    return decodeURIComponent(value);
-  } catch {
-    return value;
-  }
-}
-
-function discoverProgressFiles(): Array<{
-  model: string;
-  prompt: string;
-  filename: string;
-}> {
-  const feedbotOutputDir = path.join(__dirname, "../feedbotOutput");
-  const files = readdirSync(feedbotOutputDir);
-
-  const progressFiles: Array<{
-    model: string;
-    prompt: string;
-    filename: string;
-  }> = [];
-
-  files.forEach((filename) => {
-    const encodedMatch = filename.match(
-      /^feedbot_progress_m-(.+)_p-(.+)\.json$/,
-    );
-    if (encodedMatch) {
-      const [, encodedModel, encodedPrompt] = encodedMatch;
-      if (!encodedModel || !encodedPrompt) {
-        return;
-      }
-      progressFiles.push({
-        model: safeDecode(encodedModel),
-        prompt: safeDecode(encodedPrompt),
-        filename,
-      });
-      return;
-    }
-
-    // Backward compatibility for old filename format
-    const legacyMatch = filename.match(/^feedbot_progress_(.+)_(.+)\.json$/);
-    if (legacyMatch) {
-      const [, model, prompt] = legacyMatch;
-      if (!model || !prompt) {
-        return;
-      }
-      progressFiles.push({ model, prompt, filename });
-    }
-  });
-
-  return progressFiles;
-}
-
-interface StateFile {
-  processed: {
-    [fingerprint: string]: {
-      hint: string;
-      timestamp: string;
-      usage?: {
-        promptTokens?: number;
-        completionTokens?: number;
-        totalTokens?: number;
-        costUSD?: number;
-      };
-    };
-  };
-}
-
 interface AggregatedResult {
   fingerprint: string;
   name: string;
@@ -93,30 +31,16 @@ interface AggregatedResult {
   [key: string]: string; // For model+prompt combination columns
 }
 
-// Load JSON file safely
-function loadStateFile(filePath: string): StateFile | null {
-  if (existsSync(filePath)) {
-    try {
-      const content = readFileSync(filePath, "utf-8");
-      return JSON.parse(content);
-    } catch (error) {
-      console.warn(`Error reading ${filePath}:`, error);
-      return null;
-    }
-  }
-  return null;
-}
-
 function buildMarkdownReport(
   resultArray: AggregatedResult[],
-  progressFiles: Array<{ model: string; prompt: string; filename: string }>,
+  combinations: Array<{ model: string; prompt: string }>,
 ): string {
   const lines: string[] = [];
   lines.push("# Error Output and Model Response");
 
   let resultIndex = 1;
 
-  for (const { model, prompt } of progressFiles) {
+  for (const { model, prompt } of combinations) {
     const columnName = `${model}_${prompt}`;
 
     for (const row of resultArray) {
@@ -157,97 +81,150 @@ function buildMarkdownReport(
 
   console.log("Starting results aggregation...");
 
-  // Discover actual progress files
-  const progressFiles = discoverProgressFiles();
+  const store = new ResultsStore();
+
+  // --run <runId> limits the report to hints written by that run
+  const args = process.argv.slice(2);
+  const runIndex = args.indexOf("--run");
+  let run: RunManifest | undefined;
+  if (runIndex !== -1) {
+    run = store.requireRun(args[runIndex + 1] ?? "");
+    console.log(formatRunSummary(run));
+  }
+  const filter = {
+    status: "processed" as const,
+    ...(run ? { runId: run.runId } : {}),
+  };
+
+  const combinations = store
+    .listCombinations(filter)
+    .map(({ model, promptVariation }) => ({ model, prompt: promptVariation }));
   console.log(
-    `Found ${progressFiles.length} progress files:`,
-    progressFiles.map((f) => f.filename),
+    `Found ${combinations.length} model+prompt combinations in ${store.dbPath}`,
   );
 
-  if (progressFiles.length === 0) {
-    console.error("No progress files found! Check feedbotOutput directory.");
+  if (combinations.length === 0) {
+    console.error(
+      "No results found! Run feedbot, or import older progress files with npm run results:import.",
+    );
     return;
   }
 
-  // Load original CSV to get error metadata
-  console.log("Loading evaluation dataset...");
-  const csvContent = readFileSync(CSV_PATH, "utf-8");
-  const originalRows = parse(csvContent, {
-    columns: true,
-    skip_empty_lines: true,
-  }) as RawEvaluationRow[];
-
-  const normalizedRows: EvaluationRow[] = originalRows.map((row) =>
-    normalizeEvaluationRow(row),
-  );
-
-  // Create lookup map for error metadata
-  const errorMetadata: { [fingerprint: string]: EvaluationRow } = {};
-  normalizedRows.forEach((row) => {
-    errorMetadata[row.fingerprint] = row;
-  });
+  // Error metadata for every row FeedBot has seen
+  const errorMetadata = store.getRows();
 
-  // Load all JSON files and aggregate results
-  console.log("Loading progress files...");
+  console.log("Loading results...");
   const aggregatedResults: { [fingerprint: string]: AggregatedResult } = {};
+  const leakDetector = new LeakDetector();
+  const citationChecker = new CitationChecker();
+  // Specs for re-checking older entries come from the cache only
+  const promptGenerator = new PromptGenerator(
+    new AssignmentRegistry(CSV_PATH),
+    new PromptTemplateLibrary(),
+    new SpecLoader({ offline: true, allowMissing: true }),
+  );
 
-  for (const { model, prompt, filename } of progressFiles) {
-    const filePath = path.join(__dirname, "../feedbotOutput", filename);
-    const columnName = `${model}_${prompt}`;
-
-    console.log(`Processing: ${columnName}`);
-
-    const stateFile = loadStateFile(filePath);
-    if (!stateFile) {
-      console.warn(`Skipping ${filename} - file not found or invalid`);
+  for (const stored of store.getResults(filter)) {
+    if (stored.status !== "processed") {
       continue;
     }
+    const { fingerprint, entry: result } = stored;
+    const columnName = `${stored.model}_${stored.promptVariation}`;
+
+    // Initialize result object if this is the first time we see this fingerprint
+    if (!aggregatedResults[fingerprint]) {
+      const metadata = errorMetadata.get(fingerprint);
+      if (!metadata) {
+        console.warn(`No metadata found for fingerprint: ${fingerprint}`);
+        continue;
+      }
 
-    // Process each result in this file
-    Object.entries(stateFile.processed).forEach(([fingerprint, result]) => {
-      // Initialize result object if this is the first time we see this fingerprint
-      if (!aggregatedResults[fingerprint]) {
-        const metadata = errorMetadata[fingerprint];
-        if (!metadata) {
-          console.warn(`No metadata found for fingerprint: ${fingerprint}`);
-          return;
-        }
+      aggregatedResults[fingerprint] = {
+        fingerprint,
+        name: metadata.name,
+        score: metadata.score,
+        max_score: metadata.max_score,
+        is_active: String(metadata.is_active),
+        title: metadata.title,
+        profile_id: metadata.profile_id,
+        original_error_output: metadata.output,
+      };
 
-        aggregatedResults[fingerprint] = {
-          fingerprint,
-          name: metadata.name,
-          score: metadata.score,
-          max_score: metadata.max_score,
-          is_active: String(metadata.is_active),
-          title: metadata.title,
-          profile_id: metadata.profile_id,
-          original_error_output: metadata.output,
-        };
-
-        // Initialize all model+prompt columns as empty
-        for (const { model: m, prompt: p } of progressFiles) {
-          aggregatedResults[fingerprint][`${m}_${p}`] = "";
-          aggregatedResults[fingerprint][`${m}_${p}_tokens`] = "";
-          aggregatedResults[fingerprint][`${m}_${p}_cost_usd`] = "";
+      // Initialize all model+prompt columns as empty
+      for (const { model: m, prompt: p } of combinations) {
+        aggregatedResults[fingerprint][`${m}_${p}`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_tokens`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_cost_usd`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_leaked`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_citations`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_hallucinated_citations`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_served_by`] = "";
+        aggregatedResults[fingerprint][`${m}_${p}_prompt_reconstructed`] = "";
+        for (const field of DIAGNOSIS_COLUMNS) {
+          aggregatedResults[fingerprint][`${m}_${p}_${field}`] = "";
         }
       }
+    }
 
-      // Add the hint for this model+prompt combination
-      aggregatedResults[fingerprint][columnName] = result.hint;
+    // Add the hint for this model+prompt combination
+    aggregatedResults[fingerprint][columnName] = result.hint;
+    if (result.servedBy) {
+      aggregatedResults[fingerprint][`${columnName}_served_by`] =
+        `${result.servedBy.provider}:${result.servedBy.model}`;
+    }
+    // Imported results predate the marker and leave it empty
+    if (result.promptReconstructed !== undefined) {
+      aggregatedResults[fingerprint][`${columnName}_prompt_reconstructed`] =
+        String(result.promptReconstructed);
+    }
+    if (result.diagnosis) {
+      for (const [field, value] of Object.entries(
+        diagnosisColumns(result.diagnosis),
+      )) {
+        aggregatedResults[fingerprint][`${columnName}_${field}`] = value;
+      }
+    }
 
-      // Add usage metrics if available
-      if (result.usage) {
-        const tokensInfo = result.usage.totalTokens
-          ? `${result.usage.totalTokens}`
-          : "";
-        const costInfo = result.usage.costUSD
-          ? `${result.usage.costUSD.toFixed(6)}`
-          : "";
+    // Results imported from older progress files predate leak detection,
+    // so check them here
+    const metadata = errorMetadata.get(fingerprint);
+    const leak =
+      result.leak ??
+      (metadata ? leakDetector.check(result.hint, metadata) : undefined);
+    if (leak) {
+      aggregatedResults[fingerprint][`${columnName}_leaked`] = String(
+        leak.leaked,
+      );
+    }
 
-        aggregatedResults[fingerprint][`${columnName}_tokens`] = tokensInfo;
-        aggregatedResults[fingerprint][`${columnName}_cost_usd`] = costInfo;
-      }
-    });
+    // They predate citation checks too
+    const citations =
+      result.citations ??
+      (metadata
+        ? citationChecker.check(
+            result.hint,
+            (await promptGenerator.loadSpec(metadata)).content,
+          )
+        : undefined);
+    if (citations) {
+      aggregatedResults[fingerprint][`${columnName}_citations`] =
+        formatCitations(citations);
+      aggregatedResults[fingerprint][`${columnName}_hallucinated_citations`] =
+        citations.hallucinated.join("; ");
+    }
+
+    // Add usage metrics if available
+    if (result.usage) {
+      const tokensInfo = result.usage.totalTokens
+        ? `${result.usage.totalTokens}`
+        : "";
+      const costInfo = result.usage.costUSD
+        ? `${result.usage.costUSD.toFixed(6)}`
+        : "";
+
+      aggregatedResults[fingerprint][`${columnName}_tokens`] = tokensInfo;
+      aggregatedResults[fingerprint][`${columnName}_cost_usd`] = costInfo;
+    }
   }
 
   // Convert to array and sort by title, then prompt name
@@ -273,10 +250,18 @@ function buildMarkdownReport(
   ];
 
   // Add hint, token, and cost columns for each model+prompt combination
-  for (const { model, prompt } of progressFiles) {
+  for (const { model, prompt } of combinations) {
     csvHeaders.push(`${model}_${prompt}`);
     csvHeaders.push(`${model}_${prompt}_tokens`);
     csvHeaders.push(`${model}_${prompt}_cost_usd`);
+    csvHeaders.push(`${model}_${prompt}_leaked`);
+    csvHeaders.push(`${model}_${prompt}_citations`);
+    csvHeaders.push(`${model}_${prompt}_hallucinated_citations`);
+    csvHeaders.push(`${model}_${prompt}_served_by`);
+    csvHeaders.push(`${model}_${prompt}_prompt_reconstructed`);
+    for (const field of DIAGNOSIS_COLUMNS) {
+      csvHeaders.push(`${model}_${prompt}_${field}`);
+    }
   }
 
   const csvData = stringify(resultArray, {
@@ -288,19 +273,24 @@ function buildMarkdownReport(
   writeFileSync(OUTPUT_PATH, csvData, "utf-8");
 
   // Write Markdown file
-  const markdownReport = buildMarkdownReport(resultArray, progressFiles);
+  const markdownReport = buildMarkdownReport(resultArray, combinations);
   writeFileSync(MARKDOWN_PATH, markdownReport, "utf-8");
 
   // Print summary
   console.log("\n=== AGGREGATION SUMMARY ===");
   console.log(`Unique errors processed: ${resultArray.length}`);
-  console.log(`Model+prompt combinations: ${progressFiles.length}`);
+  console.log(`Model+prompt combinations: ${combinations.length}`);
   console.log(`Output file: ${OUTPUT_PATH}`);
   console.log(`Markdown file: ${MARKDOWN_PATH}`);
 
   // Count coverage per combination
   console.log("\nCoverage by model+prompt combination:");
-  for (const { model, prompt } of progressFiles) {
+  const leakRates: Array<{
+    columnName: string;
+    leaked: number;
+    checked: number;
+  }> = [];
+  for (const { model, prompt } of combinations) {
     const columnName = `${model}_${prompt}`;
     const count = resultArray.filter(
       (row) => row[columnName] && row[columnName].trim() !== "",
@@ -327,6 +317,43 @@ function buildMarkdownReport(
       summary += ` (${usage})`;
     }
     console.log(summary);
+
+    const citedRows = resultArray.filter(
+      (row) => row[`${columnName}_citations`],
+    );
+    if (citedRows.length > 0) {
+      const hallucinated = citedRows.filter(
+        (row) => row[`${columnName}_hallucinated_citations`],
+      ).length;
+      console.log(
+        `    ${hallucinated}/${citedRows.length} hints citing sections cite one not in the spec`,
+      );
+    }
+
+    const leakValues = resultArray
+      .map((row) => row[`${columnName}_leaked`])
+      .filter((value) => value === "true" || value === "false");
+    leakRates.push({
+      columnName,
+      leaked: leakValues.filter((value) => value === "true").length,
+      checked: leakValues.length,
+    });
+  }
+
+  // Rank prompt strategies by how often their hints repeat log values
+  console.log("\nLeak rate by model+prompt combination (lowest first):");
+  leakRates
+    .filter(({ checked }) => checked > 0)
+    .sort((a, b) => a.leaked / a.checked - b.leaked / b.checked)
+    .forEach(({ columnName, leaked, checked }) => {
+      const rate = ((leaked / checked) * 100).toFixed(1);
+      console.log(`  ${columnName}: ${leaked}/${checked} (${rate}%)`);
+    });
+
+  const fallbackLines = formatFallbackFrequency(store.getFallbackStats(filter));
+  if (fallbackLines.length > 0) {
+    console.log("\nHints answered by a fallback model:");
+    fallbackLines.forEach((line) => console.log(line));
   }
 
   console.log(
@@ -0,0 +1,60 @@
+import * as path from "path";
+import {
+  ASSIGNMENTS,
+  type AssignmentDefinition,
+} from "../../constants/assignments.js";
+import type { EvaluationRow } from "./PromptGenerator.js";
+
+/**
+ * Maps evaluation rows to the assignment whose spec they should be prompted with
+ */
+export class AssignmentRegistry {
+  private readonly assignments: AssignmentDefinition[];
+  private readonly datasetAssignment: AssignmentDefinition | undefined;
+  private readonly datasetName: string | undefined;
+
+  /**
+   * @param datasetPath - CSV the rows come from; its file name picks the
+   * assignment for rows whose title and part do not identify one
+   */
+  constructor(
+    datasetPath?: string,
+    assignments: AssignmentDefinition[] = ASSIGNMENTS,
+  ) {
+    this.assignments = assignments;
+    this.datasetName = datasetPath ? path.basename(datasetPath) : undefined;
+    this.datasetAssignment = this.datasetName
+      ? assignments.find((a) => a.datasetPattern.test(this.datasetName!))
+      : undefined;
+  }
+
+  get(id: string): AssignmentDefinition {
+    const assignment = this.assignments.find((a) => a.id === id);
+    if (!assignment) {
+      throw new Error(
+        `Unknown assignment "${id}". Known assignments: ${this.assignments.map((a) => a.id).join(", ")}`,
+      );
+    }
+    return assignment;
+  }
+
+  /**
+   * Pick the assignment for a row: its title or part first, so mixed
+   * datasets work, then the dataset's own assignment
+   */
+  resolve(row: EvaluationRow): AssignmentDefinition {
+    const fields = [row.title, row.part].filter((field) => field !== "");
+    const byRow = this.assignments.find((a) =>
+      a.rowPatterns.some((pattern) =>
+        fields.some((field) => pattern.test(field)),
+      ),
+    );
+    const assignment = byRow ?? this.datasetAssignment;
+    if (!assignment) {
+      throw new Error(
+        `No assignment matches row "${row.name}" (title: "${row.title}", part: "${row.part}") or dataset "${this.datasetName ?? "unknown"}". Add a title column or name the dataset hwN_*.csv.`,
+      );
+    }
+    return assignment;
+  }
+}
@@ -0,0 +1,11 @@
+import { renameSync, writeFileSync } from "fs";
+
+/**
+ * Write through a temp file and rename, so readers never see a partial file
+ * and a crash mid-write leaves the previous contents in place
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  writeFileSync(tempPath, content, "utf-8");
+  renameSync(tempPath, filePath);
+}
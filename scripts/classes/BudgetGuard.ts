@@ -0,0 +1,128 @@
+import { computeCostUSD, type ModelPricing } from "./providers/pricing.js";
+import type { UsageMetadata } from "./providers/providerTypes.js";
+
+/**
+ * USD spending caps. A run stops once it reaches runUSD or the store's
+ * all-time spend reaches globalUSD; a model whose spend in the run reaches
+ * its modelUSD cap ("*" applies to models without their own) gets no more
+ * requests.
+ */
+export interface BudgetLimits {
+  runUSD?: number;
+  globalUSD?: number;
+  modelUSD?: Record<string, number>;
+}
+
+/**
+ * A cap that was reached. Model stops only affect that model.
+ */
+export interface BudgetStop {
+  scope: "run" | "global" | "model";
+  model?: string;
+  message: string;
+}
+
+function formatUSD(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+/**
+ * Tracks spend against BudgetLimits. Costs come from UsageMetadata.costUSD,
+ * or are priced from the token counts when a provider does not report one.
+ */
+export class BudgetGuard {
+  private limits: BudgetLimits;
+  private getPricing: (model: string) => ModelPricing | undefined;
+  private runSpend: Map<string, number>;
+  private globalSpend: number;
+
+  constructor(
+    limits: BudgetLimits,
+    getPricing: (model: string) => ModelPricing | undefined,
+  ) {
+    this.limits = limits;
+    this.getPricing = getPricing;
+    this.runSpend = new Map();
+    this.globalSpend = 0;
+  }
+
+  /**
+   * Cost of one result, or 0 when neither a cost nor a price is known.
+   * model is the one that answered, which for a fallback is not the one
+   * whose spend it counts towards.
+   */
+  costOf(model: string, usage: UsageMetadata | undefined): number {
+    if (!usage) {
+      return 0;
+    }
+    if (usage.costUSD !== undefined) {
+      return usage.costUSD;
+    }
+    const pricing = this.getPricing(model);
+    return pricing ? computeCostUSD(usage, pricing) : 0;
+  }
+
+  /**
+   * Count spend. inRun is false for results of other runs, which only count
+   * towards the global cap; servedBy prices a fallback's answer.
+   */
+  record(
+    model: string,
+    usage: UsageMetadata | undefined,
+    inRun: boolean = true,
+    servedBy: string = model,
+  ): number {
+    const cost = this.costOf(servedBy, usage);
+    this.globalSpend += cost;
+    if (inRun) {
+      this.runSpend.set(model, (this.runSpend.get(model) ?? 0) + cost);
+    }
+    return cost;
+  }
+
+  /**
+   * The first cap reached before another request for this model, if any
+   */
+  check(model: string): BudgetStop | undefined {
+    const { runUSD, globalUSD, modelUSD } = this.limits;
+    if (globalUSD !== undefined && this.globalSpend >= globalUSD) {
+      return {
+        scope: "global",
+        message: `global budget of ${formatUSD(globalUSD)} reached (${formatUSD(this.globalSpend)} spent)`,
+      };
+    }
+    const runTotal = this.getRunSpend();
+    if (runUSD !== undefined && runTotal >= runUSD) {
+      return {
+        scope: "run",
+        message: `run budget of ${formatUSD(runUSD)} reached (${formatUSD(runTotal)} spent)`,
+      };
+    }
+    const modelCap = modelUSD?.[model] ?? modelUSD?.["*"];
+    const modelSpend = this.runSpend.get(model) ?? 0;
+    if (modelCap !== undefined && modelSpend >= modelCap) {
+      return {
+        scope: "model",
+        model,
+        message: `budget for ${model} of ${formatUSD(modelCap)} reached (${formatUSD(modelSpend)} spent)`,
+      };
+    }
+    return undefined;
+  }
+
+  getRunSpend(): number {
+    return [...this.runSpend.values()].reduce((sum, cost) => sum + cost, 0);
+  }
+
+  /**
+   * One line per model plus run and global totals
+   */
+  formatSpend(): string {
+    const lines = [...this.runSpend.entries()].map(
+      ([model, cost]) => `  ${model}: ${formatUSD(cost)}`,
+    );
+    lines.push(`  Run total: ${formatUSD(this.getRunSpend())}`);
+    lines.push(`  All runs: ${formatUSD(this.globalSpend)}`);
+    return lines.join("\n");
+  }
+}
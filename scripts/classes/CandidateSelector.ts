@@ -0,0 +1,236 @@
+import type {
+  ModelTarget,
+  ResolvedModelTarget,
+} from "../../constants/models.js";
+import type { CitationCheckResult } from "./CitationChecker.js";
+import type { HintValidationResult } from "./HintValidator.js";
+import type { LeakCheckResult } from "./LeakDetector.js";
+import type { UsageMetadata } from "./providers/providerTypes.js";
+import type { HintDiagnosis } from "./StructuredHint.js";
+
+/**
+ * fewest-violations: compliant over non-compliant, then no leak, then the
+ * fewest rule violations and hallucinated citations.
+ * shortest-compliant: the shortest compliant hint without a leak.
+ * judge: a model picks among the compliant hints without a leak.
+ */
+export type SelectionScorer =
+  "fewest-violations" | "shortest-compliant" | "judge";
+
+export const SELECTION_SCORERS: SelectionScorer[] = [
+  "fewest-violations",
+  "shortest-compliant",
+  "judge",
+];
+
+/**
+ * Draw several hints per row and keep one. Only the first attempt is
+ * sampled; when no candidate is compliant the selected one is repaired.
+ */
+export interface SamplingConfig {
+  samples: number;
+  scorer: SelectionScorer;
+  judge?: ModelTarget; // Defaults to the row's model
+}
+
+/**
+ * One sampled hint with the checks it was scored on
+ */
+export interface HintCandidate {
+  sample: number; // Which of the row's samples, from 0; failed ones leave gaps
+  hint: string;
+  validation: HintValidationResult;
+  leak: LeakCheckResult;
+  citations: CitationCheckResult;
+  diagnosis?: HintDiagnosis;
+  usage?: UsageMetadata;
+  servedBy?: ResolvedModelTarget; // Set when a fallback answered
+}
+
+/**
+ * Every candidate drawn for a row and why one was kept
+ */
+export interface CandidateSelection {
+  scorer: SelectionScorer;
+  selected: number; // Sample number of the kept candidate
+  rationale: string;
+  candidates: HintCandidate[]; // The samples that answered, in sample order
+}
+
+/**
+ * A judge's pick among the eligible candidates
+ */
+export interface JudgeVerdict {
+  selected: number; // Index into the full candidate list
+  reason: string;
+}
+
+/**
+ * Asks a judge to pick one of the eligible candidates, given as indexes
+ * into candidates. The judge is shown each one numbered by its sample
+ * number, from 1.
+ */
+export type CandidateJudge = (
+  candidates: HintCandidate[],
+  eligible: number[],
+) => Promise<JudgeVerdict>;
+
+/**
+ * Read a judge's reply: the candidate's number on the first line, then the
+ * reason. shown maps each number the judge saw to the candidate's index.
+ * Throws when it names no candidate it was shown.
+ */
+export function parseJudgeVerdict(
+  reply: string,
+  shown: Map<number, number>,
+): JudgeVerdict {
+  const match = /\d+/.exec(reply);
+  const selected = match ? shown.get(Number(match[0])) : undefined;
+  if (!match || selected === undefined) {
+    throw new Error(
+      `judge did not name a compliant candidate: "${reply.trim().slice(0, 80)}"`,
+    );
+  }
+  const reason = reply
+    .slice(match.index + match[0].length)
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.:)\]-]+/, "")
+    .trim();
+  return { selected, reason: reason || "no reason given" };
+}
+
+function isEligible(candidate: HintCandidate): boolean {
+  return candidate.validation.compliant && !candidate.leak.leaked;
+}
+
+// Lower is better, compared in order
+function violationScore(candidate: HintCandidate): number[] {
+  return [
+    candidate.validation.compliant ? 0 : 1,
+    candidate.leak.leaked ? 1 : 0,
+    candidate.validation.violations.length,
+    candidate.citations.hallucinated.length,
+  ];
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i]! - b[i]!;
+    }
+  }
+  return 0;
+}
+
+function sampleLabel(candidate: HintCandidate): string {
+  return `sample ${candidate.sample + 1}`;
+}
+
+function describeCandidate(candidate: HintCandidate): string {
+  const parts = [
+    candidate.validation.compliant
+      ? "compliant"
+      : `${candidate.validation.violations.length} violation(s)`,
+    candidate.leak.leaked ? "leaks" : "no leak",
+  ];
+  if (candidate.citations.hallucinated.length > 0) {
+    parts.push(
+      `${candidate.citations.hallucinated.length} hallucinated citation(s)`,
+    );
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Picks one hint out of several samples for the same row. Ties go to the
+ * earlier sample.
+ */
+export class CandidateSelector {
+  private scorer: SelectionScorer;
+
+  constructor(scorer: SelectionScorer) {
+    this.scorer = scorer;
+  }
+
+  /**
+   * Choose a candidate. judge is only called for the judge scorer, and only
+   * when more than one candidate is eligible; if it fails the choice falls
+   * back to fewest-violations. Candidates are scored by their index and
+   * reported by their sample number.
+   */
+  async select(
+    candidates: HintCandidate[],
+    judge?: CandidateJudge,
+  ): Promise<CandidateSelection> {
+    const eligible = candidates
+      .map((candidate, index) => (isEligible(candidate) ? index : -1))
+      .filter((index) => index !== -1);
+
+    let choice: { selected: number; rationale: string } | undefined;
+    if (this.scorer === "shortest-compliant") {
+      choice = this.shortestCompliant(candidates, eligible);
+    } else if (this.scorer === "judge" && judge && eligible.length > 1) {
+      try {
+        const verdict = await judge(candidates, eligible);
+        choice = {
+          selected: verdict.selected,
+          rationale: `judge picked ${sampleLabel(candidates[verdict.selected]!)} of compliant ${eligible.map((index) => candidates[index]!.sample + 1).join(", ")}: ${verdict.reason}`,
+        };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        const fallback = this.fewestViolations(candidates);
+        choice = {
+          selected: fallback.selected,
+          rationale: `judge failed (${msg}); ${fallback.rationale}`,
+        };
+      }
+    }
+    choice ??= this.fewestViolations(candidates);
+
+    return {
+      scorer: this.scorer,
+      selected: candidates[choice.selected]!.sample,
+      rationale: choice.rationale,
+      candidates,
+    };
+  }
+
+  private fewestViolations(candidates: HintCandidate[]): {
+    selected: number;
+    rationale: string;
+  } {
+    let selected = 0;
+    candidates.forEach((candidate, index) => {
+      if (
+        compareScores(
+          violationScore(candidate),
+          violationScore(candidates[selected]!),
+        ) < 0
+      ) {
+        selected = index;
+      }
+    });
+    return {
+      selected,
+      rationale: `fewest violations: ${sampleLabel(candidates[selected]!)} of ${candidates.length} answered (${describeCandidate(candidates[selected]!)})`,
+    };
+  }
+
+  private shortestCompliant(
+    candidates: HintCandidate[],
+    eligible: number[],
+  ): { selected: number; rationale: string } | undefined {
+    if (eligible.length === 0) {
+      return undefined;
+    }
+    const selected = eligible.reduce((shortest, index) =>
+      candidates[index]!.hint.length < candidates[shortest]!.hint.length
+        ? index
+        : shortest,
+    );
+    return {
+      selected,
+      rationale: `shortest of ${eligible.length} compliant: ${sampleLabel(candidates[selected]!)} (${candidates[selected]!.hint.length} characters)`,
+    };
+  }
+}
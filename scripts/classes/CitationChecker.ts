@@ -0,0 +1,143 @@
+import {
+  flattenSections,
+  parseSpecSections,
+  type SpecSection,
+} from "./SpecSlicer.js";
+
+/**
+ * A numbered spec section a hint may cite
+ */
+export interface SpecSectionEntry {
+  number: string;
+  title: string;
+  level: number;
+}
+
+export interface Citation {
+  number: string;
+  valid: boolean;
+  title?: string; // Title of the cited section when it exists
+}
+
+export interface CitationCheckResult {
+  indexed: boolean; // False when there was no spec to check against
+  citations: Citation[];
+  hallucinated: string[]; // Cited section numbers missing from the spec
+}
+
+// "section 5.3.5", "sections 2.1 and 2.4", "§4"
+const CITATION_PATTERN =
+  /(?:\bsections?\s+|§\s*)(\d+(?:\.\d+)*(?:\s*(?:,|and|or|&)\s*(?:section\s+)?\d+(?:\.\d+)*)*)/gi;
+const SECTION_NUMBER_PATTERN = /\d+(?:\.\d+)*/g;
+const NUMBERED_HEADING_PATTERN = /^(?:section\s+|§\s*)?(\d+(?:\.\d+)*)\.?\s+/i;
+
+/**
+ * Build a section-number index for a spec. Headings that carry their own
+ * numbers ("## 5.3 Formatting") are indexed as written; if no heading does,
+ * numbers are derived from the outline, with a lone top-level title heading
+ * left unnumbered.
+ */
+export function buildSectionIndex(
+  markdown: string,
+): Map<string, SpecSectionEntry> {
+  const root = parseSpecSections(markdown);
+  const headings = flattenSections(root).filter((section) => section.level > 0);
+  const index = new Map<string, SpecSectionEntry>();
+
+  const numbered = headings.filter((section) =>
+    NUMBERED_HEADING_PATTERN.test(section.title),
+  );
+  if (numbered.length > 0) {
+    for (const section of numbered) {
+      const match = NUMBERED_HEADING_PATTERN.exec(section.title)!;
+      index.set(match[1]!, {
+        number: match[1]!,
+        title: section.title.slice(match[0].length).trim(),
+        level: section.level,
+      });
+    }
+    return index;
+  }
+
+  const sections =
+    root.children.length === 1 && root.children[0]!.level === 1
+      ? root.children[0]!.children
+      : root.children;
+  const visit = (children: SpecSection[], prefix: string) => {
+    children.forEach((section, i) => {
+      const number = prefix ? `${prefix}.${i + 1}` : `${i + 1}`;
+      index.set(number, { number, title: section.title, level: section.level });
+      visit(section.children, number);
+    });
+  };
+  visit(sections, "");
+  return index;
+}
+
+/**
+ * Checks the section numbers a hint cites against the spec it was written for
+ */
+export class CitationChecker {
+  private readonly indexes = new Map<string, Map<string, SpecSectionEntry>>();
+
+  /**
+   * Section numbers referenced in a hint, in order of first mention
+   */
+  extractCitations(hint: string): string[] {
+    const numbers = new Set<string>();
+    for (const match of hint.matchAll(CITATION_PATTERN)) {
+      for (const number of match[1]!.matchAll(SECTION_NUMBER_PATTERN)) {
+        numbers.add(number[0]);
+      }
+    }
+    return [...numbers];
+  }
+
+  check(hint: string, spec: string): CitationCheckResult {
+    const numbers = this.extractCitations(hint);
+    if (!spec) {
+      return {
+        indexed: false,
+        citations: numbers.map((number) => ({ number, valid: false })),
+        hallucinated: [],
+      };
+    }
+
+    const index = this.getIndex(spec);
+    const citations = numbers.map((number): Citation => {
+      const entry = index.get(number);
+      return entry
+        ? { number, valid: true, title: entry.title }
+        : { number, valid: false };
+    });
+    return {
+      indexed: true,
+      citations,
+      hallucinated: citations.filter((c) => !c.valid).map((c) => c.number),
+    };
+  }
+
+  private getIndex(spec: string): Map<string, SpecSectionEntry> {
+    let index = this.indexes.get(spec);
+    if (!index) {
+      index = buildSectionIndex(spec);
+      this.indexes.set(spec, index);
+    }
+    return index;
+  }
+}
+
+/**
+ * One-line summary for CSV reports, e.g. "5.3 Formatting; 9.9 (not in spec)"
+ */
+export function formatCitations(result: CitationCheckResult): string {
+  return result.citations
+    .map((citation) =>
+      citation.valid
+        ? `${citation.number} ${citation.title}`
+        : result.indexed
+          ? `${citation.number} (not in spec)`
+          : `${citation.number} (unchecked)`,
+    )
+    .join("; ");
+}
@@ -0,0 +1,141 @@
+import {
+  computeCostUSD,
+  estimateTokens,
+  type ModelPricing,
+} from "./providers/pricing.js";
+import type { ChatMessage } from "./providers/providerTypes.js";
+
+// Hints are 3-4 sentences; used until a model has stored completions
+export const DEFAULT_COMPLETION_TOKENS = 150;
+
+/**
+ * Projected requests, tokens and cost for one model+prompt combination
+ */
+export interface CombinationEstimate {
+  model: string;
+  promptVariation: string;
+  requests: number;
+  skipped: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD?: number; // Missing when the model has no price
+}
+
+/**
+ * Totals up the prompts a run would send and prices them. Counts first
+ * attempts only, so repairs can add to the projection.
+ */
+export class CostEstimator {
+  private estimates: Map<string, CombinationEstimate>;
+  private getPricing: (model: string) => ModelPricing | undefined;
+  private completionTokens: Record<string, number>;
+
+  constructor(
+    getPricing: (model: string) => ModelPricing | undefined,
+    completionTokens: Record<string, number> = {},
+  ) {
+    this.estimates = new Map();
+    this.getPricing = getPricing;
+    this.completionTokens = completionTokens;
+  }
+
+  /**
+   * Count the requests that would be sent with these messages: one, or one
+   * per sample when several are drawn for each row
+   */
+  addRequest(
+    model: string,
+    promptVariation: string,
+    messages: ChatMessage[],
+    samples: number = 1,
+  ): void {
+    const estimate = this.getEstimate(model, promptVariation);
+    const promptTokens =
+      samples *
+      messages.reduce(
+        (sum, message) => sum + estimateTokens(message.content),
+        0,
+      );
+    const completionTokens =
+      samples * (this.completionTokens[model] ?? DEFAULT_COMPLETION_TOKENS);
+    estimate.requests += samples;
+    estimate.promptTokens += promptTokens;
+    estimate.completionTokens += completionTokens;
+
+    const pricing = this.getPricing(model);
+    if (pricing) {
+      estimate.costUSD =
+        (estimate.costUSD ?? 0) +
+        computeCostUSD({ promptTokens, completionTokens }, pricing);
+    }
+  }
+
+  addSkipped(model: string, promptVariation: string): void {
+    this.getEstimate(model, promptVariation).skipped++;
+  }
+
+  getEstimates(): CombinationEstimate[] {
+    return [...this.estimates.values()];
+  }
+
+  /**
+   * Table of estimates per combination with a grand total
+   */
+  formatReport(): string {
+    const estimates = this.getEstimates();
+    const lines = ["=== COST ESTIMATE ==="];
+    for (const estimate of estimates) {
+      lines.push(
+        `${estimate.model} + ${estimate.promptVariation}: ${estimate.requests} request${estimate.requests === 1 ? "" : "s"} (${estimate.skipped} skipped), ~${estimate.promptTokens} prompt + ~${estimate.completionTokens} completion tokens, ${formatCost(estimate)}`,
+      );
+    }
+
+    const requests = estimates.reduce((sum, e) => sum + e.requests, 0);
+    const totalCost = estimates.reduce((sum, e) => sum + (e.costUSD ?? 0), 0);
+    const unpriced = [
+      ...new Set(
+        estimates
+          .filter((e) => e.requests > 0 && e.costUSD === undefined)
+          .map((e) => e.model),
+      ),
+    ];
+    lines.push(
+      `Total: ${requests} request${requests === 1 ? "" : "s"}, ~$${totalCost.toFixed(4)}`,
+    );
+    if (unpriced.length > 0) {
+      lines.push(
+        `No price known for ${unpriced.join(", ")}; add it to MODEL_PRICING to include it`,
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private getEstimate(
+    model: string,
+    promptVariation: string,
+  ): CombinationEstimate {
+    const key = `${model}::${promptVariation}`;
+    let estimate = this.estimates.get(key);
+    if (!estimate) {
+      estimate = {
+        model,
+        promptVariation,
+        requests: 0,
+        skipped: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+      };
+      this.estimates.set(key, estimate);
+    }
+    return estimate;
+  }
+}
+
+function formatCost(estimate: CombinationEstimate): string {
+  if (estimate.requests === 0) {
+    return "$0";
+  }
+  return estimate.costUSD !== undefined
+    ? `~$${estimate.costUSD.toFixed(4)}`
+    : "no price";
+}
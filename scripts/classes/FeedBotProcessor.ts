@@ -1,46 +1,86 @@
 import { parse } from "csv-parse/sync";
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
+import { AssignmentRegistry } from "./AssignmentRegistry.js";
 import {
+  BudgetGuard,
+  type BudgetLimits,
+  type BudgetStop,
+} from "./BudgetGuard.js";
+import { CostEstimator, type CombinationEstimate } from "./CostEstimator.js";
+import {
+  HintRepairError,
   ModelManager,
+  PartialRowError,
   type ModelConfig,
-  type UsageMetadata,
 } from "./ModelManager.js";
 import {
   normalizeEvaluationRow,
   PromptGenerator,
   REQUIRED_DATASET_COLUMNS,
+  toChatMessages,
   type EvaluationRow,
   type RawEvaluationRow,
 } from "./PromptGenerator.js";
+import { hashContent, PromptTemplateLibrary } from "./PromptTemplates.js";
+import type { ChatMessage } from "./providers/providerTypes.js";
+import {
+  ReprocessSelector,
+  type ReprocessFilter,
+} from "./ReprocessSelector.js";
+import {
+  describeRateLimit,
+  type RateLimitConfig,
+  type RateLimiter,
+} from "./RateLimiter.js";
 import { ResultsAggregator } from "./ResultsAggregator.js";
-
-/**
- * State file structure for tracking processed items
- */
-interface StateFile {
-  processed: {
-    [fingerprint: string]: {
-      hint: string;
-      timestamp: string;
-      usage?: UsageMetadata;
-    };
-  };
-}
+import {
+  RESULTS_DB_FILE,
+  ResultsStore,
+  type Combination,
+  type ProcessedEntry,
+} from "./ResultsStore.js";
+import {
+  createRunId,
+  getCodeVersion,
+  type CombinationTotals,
+  type RunManifest,
+} from "./RunManifest.js";
+import {
+  SpecLoader,
+  type LoadedSpec,
+  type SpecLoaderOptions,
+} from "./SpecLoader.js";
+import { SpecSlicer, type SpecSliceOptions } from "./SpecSlicer.js";
+import type { OutputMode } from "./StructuredHint.js";
 
 /**
  * Configuration for FeedBot processor
  */
 export interface FeedBotConfig {
   csvPath: string;
-  concurrency?: number;
   outputDir: string;
   models: string[];
   promptVariations: string[];
   modelConfig: ModelConfig;
+  spec?: SpecLoaderOptions;
+  specSlicing?: SpecSliceOptions; // Send only the spec sections each row is about
   limit?: number;
-  delayMs?: number; // Delay between individual requests
-  delayBetweenCombinationsMs?: number; // Delay between model+prompt combinations
+  runId?: string; // Resume an earlier run instead of starting a new one
+  reprocess?: ReprocessFilter; // Regenerate processed rows matching this
+  budget?: BudgetLimits; // Stop sending requests once spend reaches a cap
+  outputMode?: OutputMode; // Defaults to prose
+}
+
+// What a run does with one row, and the line it logs about it
+type RowPlan =
+  { send: true; message?: string } | { send: false; message: string };
+
+/**
+ * Options for FeedBotProcessor.dryRun
+ */
+export interface DryRunOptions {
+  promptsDir?: string; // Write every rendered prompt here for review
 }
 
 /**
@@ -51,33 +91,68 @@ export class FeedBotProcessor {
   private promptGenerator: PromptGenerator;
   private modelManager: ModelManager;
   private resultsAggregator: ResultsAggregator;
+  private templates: PromptTemplateLibrary;
+  private store: ResultsStore;
+  private runId: string;
+  private reprocessSelector: ReprocessSelector | undefined;
+  private budgetGuard: BudgetGuard | undefined;
+  private budgetStops: Map<string, BudgetStop>; // By model, or "*" for all
+  private abortController: AbortController;
 
   constructor(config: FeedBotConfig) {
     this.config = config;
-    // Delays are now set by the caller based on provider
-    // Defaults: delayMs defaults to 0, delayBetweenCombinationsMs defaults to 0
-    this.config.delayMs = config.delayMs ?? 0;
-    this.config.delayBetweenCombinationsMs =
-      config.delayBetweenCombinationsMs ?? 0;
-    this.config.concurrency = Math.max(1, config.concurrency ?? 1);
-    this.promptGenerator = new PromptGenerator();
+    this.templates = new PromptTemplateLibrary();
+    this.promptGenerator = new PromptGenerator(
+      new AssignmentRegistry(config.csvPath),
+      this.templates,
+      new SpecLoader(config.spec),
+      config.specSlicing ? new SpecSlicer(config.specSlicing) : undefined,
+      config.outputMode,
+    );
+    // Fail before any API calls if a variation is not in the registry
+    config.promptVariations.forEach((variation) =>
+      this.promptGenerator.getStrategy(variation),
+    );
     this.modelManager = new ModelManager(
       config.modelConfig,
       this.promptGenerator,
     );
     this.resultsAggregator = new ResultsAggregator();
+    this.store = new ResultsStore(path.join(config.outputDir, RESULTS_DB_FILE));
+    this.runId = config.runId ?? createRunId();
+    this.budgetStops = new Map();
+    this.abortController = new AbortController();
+    this.reprocessSelector = config.reprocess
+      ? new ReprocessSelector(config.reprocess)
+      : undefined;
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Stop the run: no new rows are started and in-flight requests are
+   * aborted. run() then records the run as cancelled and returns.
    */
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  cancel(): void {
+    if (this.cancelled) {
+      return;
+    }
+    console.log(
+      "\nCancelling: aborting in-flight requests and saving state...\n",
+    );
+    this.abortController.abort(new Error("Run cancelled"));
   }
 
+  get cancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * Run rows on up to the limiter's maximum concurrency. The limiter decides
+   * how many requests are actually in flight and lowers that while the
+   * provider is throttling.
+   */
   private async runWithConcurrency<T>(
     items: T[],
-    concurrency: number,
+    limiter: RateLimiter,
     worker: (item: T, index: number) => Promise<void>,
   ): Promise<void> {
     if (items.length === 0) {
@@ -85,12 +160,12 @@ export class FeedBotProcessor {
     }
 
     let nextIndex = 0;
-    const workerCount = Math.min(Math.max(1, concurrency), items.length);
+    const workerCount = Math.min(limiter.maxConcurrency, items.length);
 
     const workers = Array.from({ length: workerCount }, async () => {
       while (true) {
         const currentIndex = nextIndex++;
-        if (currentIndex >= items.length) {
+        if (currentIndex >= items.length || this.cancelled) {
           return;
         }
         await worker(items[currentIndex]!, currentIndex);
@@ -100,40 +175,6 @@ export class FeedBotProcessor {
     await Promise.all(workers);
   }
 
-  /**
-   * Retry logic with exponential backoff for 429 errors
-   */
-  private async retryWithBackoff<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelayMs: number = 1000,
-  ): Promise<T> {
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error: any) {
-        // Check if it's a rate limit error
-        if (error?.status === 429 || error?.message?.includes("429")) {
-          if (attempt === maxRetries) {
-            throw error; // Give up after max retries
-          }
-
-          // Exponential backoff: 1s, 2s, 4s, 8s...
-          const delayMs = baseDelayMs * Math.pow(2, attempt);
-          console.log(
-            `Rate limited! Waiting ${delayMs}ms before retry ${attempt + 1}/${maxRetries}`,
-          );
-          await this.sleep(delayMs);
-          continue;
-        }
-
-        // Not a rate limit error, rethrow immediately
-        throw error;
-      }
-    }
-    throw new Error("Should never reach here");
-  }
-
   /**
    * Load CSV data
    */
@@ -163,45 +204,16 @@ export class FeedBotProcessor {
   }
 
   /**
-   * Generate state file path for a specific model+prompt combination
-   */
-  private encodeStateSegment(value: string): string {
-    return encodeURIComponent(value);
-  }
-
-  private getStatePath(model: string, promptVariation: string): string {
-    const encodedModel = this.encodeStateSegment(model);
-    const encodedPrompt = this.encodeStateSegment(promptVariation);
-
-    return path.join(
-      this.config.outputDir,
-      `feedbot_progress_m-${encodedModel}_p-${encodedPrompt}.json`,
-    );
-  }
-
-  /**
-   * Load state from file
-   */
-  private loadState(statePath: string): StateFile {
-    if (existsSync(statePath)) {
-      const content = readFileSync(statePath, "utf-8");
-      return JSON.parse(content);
-    }
-    return { processed: {} };
-  }
-
-  /**
-   * Save state to file
-   */
-  private saveState(state: StateFile, statePath: string): void {
-    writeFileSync(statePath, JSON.stringify(state, null, 2), "utf-8");
-  }
-
-  /**
-   * Check if a row has already been processed
+   * Key results are stored under for a model+prompt combination
    */
-  private isAlreadyProcessed(row: EvaluationRow, state: StateFile): boolean {
-    return !!state.processed[row.fingerprint];
+  private getCombination(model: string, promptVariation: string): Combination {
+    // Sliced runs are stored apart so they can be compared with full-spec runs
+    return {
+      model,
+      promptVariation: this.config.specSlicing
+        ? `${promptVariation}+sliced-spec`
+        : promptVariation,
+    };
   }
 
   /**
@@ -225,6 +237,36 @@ export class FeedBotProcessor {
     return `${row.title} :: ${row.name}`;
   }
 
+  /**
+   * Whether a row is sent to the model. Rows the generator skips and rows
+   * already processed are not, unless a processed row matches the reprocess
+   * filter; rows this run already regenerated are not redone on resume.
+   */
+  private planRow(row: EvaluationRow, combination: Combination): RowPlan {
+    const skipReason = this.promptGenerator.getSkipReason(row);
+    if (skipReason) {
+      return {
+        send: false,
+        message: `Skipping row (${skipReason}): ${this.rowLabel(row)}`,
+      };
+    }
+
+    const existing = this.store.getResult(combination, row.fingerprint);
+    if (existing?.status !== "processed") {
+      return { send: true };
+    }
+    const reprocessReason =
+      existing.entry.runId !== this.runId
+        ? this.reprocessSelector?.reason(row.fingerprint, existing.entry)
+        : null;
+    return reprocessReason
+      ? {
+          send: true,
+          message: `Reprocessing (${reprocessReason}): ${this.rowLabel(row)}`,
+        }
+      : { send: false, message: `Already processed: ${this.rowLabel(row)}` };
+  }
+
   /**
    * Process a single row with rate limiting and retry logic
    */
@@ -232,8 +274,7 @@ export class FeedBotProcessor {
     row: EvaluationRow,
     model: string,
     promptVariation: string,
-    state: StateFile,
-    statePath: string,
+    combination: Combination,
     index: number,
     total: number,
   ): Promise<void> {
@@ -242,49 +283,59 @@ export class FeedBotProcessor {
       return;
     }
 
-    // Skip rows that should not be sent to the LLM
-    const skipReason = this.promptGenerator.getSkipReason(row);
-    if (skipReason) {
-      this.log(
-        model,
-        promptVariation,
-        `Skipping row (${skipReason}): ${this.rowLabel(row)}`,
-        index,
-        total,
-      );
+    const plan = this.planRow(row, combination);
+    if (plan.message) {
+      this.log(model, promptVariation, plan.message, index, total);
+    }
+    if (!plan.send) {
       this.resultsAggregator.incrementSkipped(model, promptVariation);
       return;
     }
 
-    // Skip if already processed
-    if (this.isAlreadyProcessed(row, state)) {
-      this.log(
-        model,
-        promptVariation,
-        `Already processed: ${this.rowLabel(row)}`,
-        index,
-        total,
-      );
-      this.resultsAggregator.incrementSkipped(model, promptVariation);
+    // Rows after a budget stop or cancellation are left for a resumed run
+    if (this.cancelled || this.isBudgetStopped(model)) {
       return;
     }
 
-    // Process the row with retry logic
+    // The rate limiter retries throttled and transient failures
     try {
-      const result = await this.retryWithBackoff(async () => {
-        return await this.modelManager.processRow(row, model, promptVariation);
-      });
+      const result = await this.modelManager.processRow(
+        row,
+        model,
+        promptVariation,
+        this.abortController.signal,
+      );
 
       // Save to state immediately
-      const stateEntry: any = {
+      const stateEntry: ProcessedEntry = {
         hint: result.hint,
         timestamp: result.timestamp,
+        validation: result.validation,
+        leak: result.leak,
+        citations: result.citations,
+        attempts: result.attempts,
+        assignmentId: result.assignmentId,
+        specHash: result.specHash,
+        ...(result.specSlice ? { specSlice: result.specSlice } : {}),
+        generation: result.generation,
+        runId: this.runId,
+        promptVersion: result.promptVersion,
+        promptReconstructed: result.promptReconstructed,
+        promptHash: result.promptHash,
+        ...(result.servedBy ? { servedBy: result.servedBy } : {}),
+        ...(result.diagnosis ? { diagnosis: result.diagnosis } : {}),
+        ...(result.selection ? { selection: result.selection } : {}),
       };
       if (result.usage) {
         stateEntry.usage = result.usage;
       }
-      state.processed[row.fingerprint] = stateEntry;
-      this.saveState(state, statePath);
+      this.store.recordProcessed(combination, row.fingerprint, stateEntry);
+      this.budgetGuard?.record(
+        model,
+        result.usage,
+        true,
+        result.servedBy?.model,
+      );
 
       // Log success
       this.log(
@@ -295,6 +346,58 @@ export class FeedBotProcessor {
         total,
       );
       this.log(model, promptVariation, `Hint: ${result.hint}`);
+      if (result.servedBy) {
+        this.log(
+          model,
+          promptVariation,
+          `Answered by fallback ${result.servedBy.provider}:${result.servedBy.model}`,
+        );
+      }
+      if (result.selection) {
+        this.log(
+          model,
+          promptVariation,
+          `Selected sample ${result.selection.selected + 1} of ${this.config.modelConfig.sampling?.samples}: ${result.selection.rationale}`,
+        );
+      }
+      if (result.diagnosis) {
+        const { category, location, specSection } = result.diagnosis;
+        this.log(
+          model,
+          promptVariation,
+          `Diagnosis: ${category}${location ? ` in ${location}` : ""}${specSection ? ` (spec ${specSection})` : ""}`,
+        );
+      }
+      if (result.leak.leaked) {
+        const values = result.leak.matches.map((m) => m.value);
+        this.log(
+          model,
+          promptVariation,
+          `Possible answer leak: ${values.join(" | ")}`,
+        );
+      }
+      if (result.citations.hallucinated.length > 0) {
+        this.log(
+          model,
+          promptVariation,
+          `Cites sections not in the spec: ${result.citations.hallucinated.join(", ")}`,
+        );
+      }
+      if (result.attempts > 1) {
+        this.log(
+          model,
+          promptVariation,
+          `Accepted after ${result.attempts} attempts`,
+        );
+      }
+      if (!result.validation.compliant) {
+        const ruleIds = result.validation.violations.map((v) => v.rule);
+        this.log(
+          model,
+          promptVariation,
+          `Compliance violations: ${[...new Set(ruleIds)].join(", ")}`,
+        );
+      }
 
       // Log usage metrics if available
       if (result.usage) {
@@ -314,18 +417,44 @@ export class FeedBotProcessor {
       console.log("---\n");
 
       this.resultsAggregator.incrementProcessed(model, promptVariation);
-
-      // Add delay between requests if configured
+      if (result.servedBy) {
+        this.resultsAggregator.incrementFallbacks(model, promptVariation);
+      }
+    } catch (error) {
+      // Requests that answered before the row failed or was cancelled are
+      // still paid for. The failure is stored with their usage, so later
+      // runs count it towards the global budget; a cancelled row with
+      // nothing to charge is left for the resumed run.
       if (
-        this.config.concurrency === 1 &&
-        this.config.delayMs! > 0 &&
-        index < total
+        error instanceof PartialRowError &&
+        (!this.cancelled || error.usage)
       ) {
-        // Don't delay after the last item
-        console.log(`Waiting ${this.config.delayMs}ms before next request...`);
-        await this.sleep(this.config.delayMs!);
+        this.store.recordFailed(combination, row.fingerprint, {
+          reason: error.message,
+          timestamp: new Date().toISOString(),
+          attempts: error.attempts,
+          ...(error.usage ? { usage: error.usage } : {}),
+          runId: this.runId,
+          ...(error.servedBy ? { servedBy: error.servedBy } : {}),
+        });
+        this.budgetGuard?.record(
+          model,
+          error.usage,
+          true,
+          error.servedBy?.model,
+        );
+      }
+      // An aborted request is neither failed nor processed
+      if (this.cancelled) {
+        this.log(
+          model,
+          promptVariation,
+          `Cancelled: ${this.rowLabel(row)}`,
+          index,
+          total,
+        );
+        return;
       }
-    } catch (error) {
       console.error(
         `[${model}] [${promptVariation}] [${index}/${total}] ERROR processing ${this.rowLabel(row)}`,
       );
@@ -333,10 +462,79 @@ export class FeedBotProcessor {
       console.error(`  Error:`, error instanceof Error ? error.message : error);
       console.log("---\n");
 
+      // Exhausted repairs are recorded so the reason survives the run;
+      // they stay out of `processed` so the next run tries them again
+      if (error instanceof HintRepairError) {
+        this.store.recordFailed(combination, row.fingerprint, {
+          reason: error.reason,
+          timestamp: new Date().toISOString(),
+          attempts: error.attempts,
+          lastHint: error.lastHint,
+          validation: error.validation,
+          ...(error.usage ? { usage: error.usage } : {}),
+          runId: this.runId,
+          ...(error.servedBy ? { servedBy: error.servedBy } : {}),
+        });
+        this.budgetGuard?.record(
+          model,
+          error.usage,
+          true,
+          error.servedBy?.model,
+        );
+      }
+
       this.resultsAggregator.incrementFailed(model, promptVariation);
     }
   }
 
+  /**
+   * Whether a budget cap keeps this model from sending another request.
+   * Each cap is logged the first time it is reached.
+   */
+  private isBudgetStopped(model: string): boolean {
+    if (this.budgetStops.has("*") || this.budgetStops.has(model)) {
+      return true;
+    }
+    const stop = this.budgetGuard?.check(model);
+    if (!stop) {
+      return false;
+    }
+    this.budgetStops.set(stop.scope === "model" ? model : "*", stop);
+    console.log(
+      `\n⛔ Budget stop: ${stop.message}; ${stop.scope === "model" ? `no more requests for ${model}` : "stopping the run"}\n`,
+    );
+    return true;
+  }
+
+  /**
+   * Budget guard seeded with the spend already in the store: every result,
+   * failed and replaced ones included, counts towards the global cap, this
+   * run's (when resuming) towards the rest
+   */
+  private createBudgetGuard(limits: BudgetLimits): BudgetGuard {
+    const guard = new BudgetGuard(limits, (model) =>
+      this.modelManager.getPricing(model),
+    );
+    for (const result of this.store.getResults({ includeHistory: true })) {
+      guard.record(
+        result.model,
+        result.entry.usage,
+        result.entry.runId === this.runId,
+        result.entry.servedBy?.model,
+      );
+    }
+
+    const unpriced = this.config.models.filter(
+      (model) => !this.modelManager.getPricing(model),
+    );
+    if (unpriced.length > 0) {
+      console.warn(
+        `No price known for ${unpriced.join(", ")}; only costs the provider reports count towards the budget`,
+      );
+    }
+    return guard;
+  }
+
   /**
    * Process all rows for a specific model+prompt combination
    */
@@ -348,9 +546,7 @@ export class FeedBotProcessor {
     // Initialize stats for this combination
     this.resultsAggregator.initializeCombination(model, promptVariation);
 
-    // Get state path and load state
-    const statePath = this.getStatePath(model, promptVariation);
-    const state = this.loadState(statePath);
+    const combination = this.getCombination(model, promptVariation);
 
     // Apply limit if specified
     const rowsToProcess = this.config.limit
@@ -363,34 +559,204 @@ export class FeedBotProcessor {
       promptVariation,
       `Starting combination: ${total} row${total === 1 ? "" : "s"} to process`,
     );
-    if (this.config.concurrency! > 1) {
-      console.log(`  (concurrency: ${this.config.concurrency})`);
-    }
-    if (this.config.concurrency === 1 && this.config.delayMs! > 0) {
-      console.log(`  (${this.config.delayMs}ms delay between requests)`);
+    const limiter = this.modelManager.getRateLimiter(model);
+    if (limiter.currentConcurrency < limiter.maxConcurrency) {
+      console.log(
+        `  (concurrency ${limiter.currentConcurrency} of ${limiter.maxConcurrency} after throttling)`,
+      );
     }
     console.log("---\n");
 
-    await this.runWithConcurrency(
-      rowsToProcess,
-      this.config.concurrency ?? 1,
-      async (row, i) => {
-        await this.processSingleRow(
-          row,
-          model,
-          promptVariation,
-          state,
-          statePath,
-          i + 1,
-          total,
-        );
-      },
-    );
+    await this.runWithConcurrency(rowsToProcess, limiter, async (row, i) => {
+      await this.processSingleRow(
+        row,
+        model,
+        promptVariation,
+        combination,
+        i + 1,
+        total,
+      );
+    });
 
     this.log(
       model,
       promptVariation,
-      `Combination complete. State saved to: ${statePath}\n`,
+      `Combination ${this.cancelled ? "cancelled" : "complete"}. Results saved to: ${this.store.dbPath}\n`,
+    );
+  }
+
+  /**
+   * Create the manifest for this run, or reopen it when resuming
+   */
+  private startManifest(rowCount: number, specs: LoadedSpec[]): RunManifest {
+    const now = new Date().toISOString();
+    const datasetHash = hashContent(readFileSync(this.config.csvPath, "utf-8"));
+
+    if (this.config.runId) {
+      const manifest = this.store.requireRun(this.config.runId);
+      if (manifest.dataset.sha256 !== datasetHash) {
+        console.warn(
+          `Dataset has changed since run ${manifest.runId} started (${manifest.dataset.sha256.slice(0, 12)} -> ${datasetHash.slice(0, 12)})`,
+        );
+      }
+      this.adoptReprocessFilter(manifest);
+      const outputMode = this.promptGenerator.outputMode;
+      if ((manifest.outputMode ?? "prose") !== outputMode) {
+        console.warn(
+          `Run ${manifest.runId} started with --output ${manifest.outputMode ?? "prose"}; continuing with --output ${outputMode}`,
+        );
+        manifest.outputMode = outputMode;
+      }
+      if (this.config.budget) {
+        manifest.budget = this.config.budget;
+      }
+      manifest.status = "running";
+      delete manifest.endedAt;
+      delete manifest.budgetStops;
+      manifest.sessions.push({ startedAt: now, totals: [] });
+      this.store.saveRun(manifest);
+      return manifest;
+    }
+
+    const strategies = Object.fromEntries(
+      this.config.promptVariations.map((variation) => {
+        const { version, hash, reconstructed } =
+          this.promptGenerator.getStrategy(variation);
+        return [
+          variation,
+          { version, hash, ...(reconstructed ? { reconstructed } : {}) },
+        ];
+      }),
+    );
+    const system = this.templates.get("system");
+    const user = this.templates.get("user");
+    const jsonOutput =
+      this.promptGenerator.outputMode === "json"
+        ? this.templates.get("json-output")
+        : undefined;
+    const judge =
+      this.config.modelConfig.sampling?.scorer === "judge"
+        ? this.templates.get("judge")
+        : undefined;
+
+    const manifest: RunManifest = {
+      runId: this.runId,
+      status: "running",
+      startedAt: now,
+      codeVersion: getCodeVersion(),
+      dataset: {
+        path: this.config.csvPath,
+        sha256: datasetHash,
+        rows: rowCount,
+      },
+      provider: this.config.modelConfig.provider,
+      models: this.config.models,
+      promptVariations: this.config.promptVariations,
+      generation: this.getGenerationParams(),
+      ...(this.config.limit !== undefined ? { limit: this.config.limit } : {}),
+      outputMode: this.promptGenerator.outputMode,
+      rateLimit: this.getRateLimitConfig(),
+      ...(this.config.modelConfig.request
+        ? { request: this.config.modelConfig.request }
+        : {}),
+      ...(this.config.modelConfig.fallbacks
+        ? { fallbacks: this.config.modelConfig.fallbacks }
+        : {}),
+      ...(this.config.modelConfig.repair
+        ? { repair: this.config.modelConfig.repair }
+        : {}),
+      ...(this.config.modelConfig.sampling
+        ? { sampling: this.config.modelConfig.sampling }
+        : {}),
+      ...(this.config.spec ? { spec: this.config.spec } : {}),
+      ...(this.config.reprocess ? { reprocess: this.config.reprocess } : {}),
+      ...(this.config.budget ? { budget: this.config.budget } : {}),
+      ...(this.config.specSlicing
+        ? { specSlicing: this.config.specSlicing }
+        : {}),
+      templates: {
+        system: { version: system.version, hash: system.hash },
+        user: { version: user.version, hash: user.hash },
+        ...(jsonOutput
+          ? {
+              jsonOutput: {
+                version: jsonOutput.version,
+                hash: jsonOutput.hash,
+              },
+            }
+          : {}),
+        ...(judge
+          ? { judge: { version: judge.version, hash: judge.hash } }
+          : {}),
+        strategies,
+      },
+      specs: Object.fromEntries(
+        specs.map((spec) => [
+          spec.source,
+          { hash: spec.hash, origin: spec.origin },
+        ]),
+      ),
+      sessions: [{ startedAt: now, totals: [] }],
+      totals: [],
+    };
+    this.store.saveRun(manifest);
+    return manifest;
+  }
+
+  /**
+   * Parameters each model in the run, fallbacks included, is sent with for
+   * each prompt variation
+   */
+  private getGenerationParams(): NonNullable<RunManifest["generation"]> {
+    const models = new Set(
+      this.config.models.flatMap((model) =>
+        this.modelManager.getFallbackChain(model).map((target) => target.model),
+      ),
+    );
+    return Object.fromEntries(
+      [...models].map((model) => [
+        model,
+        Object.fromEntries(
+          this.config.promptVariations.map((variation) => [
+            variation,
+            this.modelManager.getGenerationParams(model, variation),
+          ]),
+        ),
+      ]),
+    );
+  }
+
+  private finishManifest(
+    manifest: RunManifest,
+    status: RunManifest["status"],
+  ): void {
+    const now = new Date().toISOString();
+    const session = manifest.sessions[manifest.sessions.length - 1]!;
+    session.totals = this.collectTotals();
+    session.endedAt = now;
+    manifest.status = status;
+    manifest.endedAt = now;
+    this.store.saveRun(manifest);
+  }
+
+  // A resumed run keeps the reprocess filter it started with
+  private adoptReprocessFilter(manifest: RunManifest): void {
+    if (manifest.reprocess && !this.reprocessSelector) {
+      this.reprocessSelector = new ReprocessSelector(manifest.reprocess);
+    }
+  }
+
+  private getRateLimitConfig(): RateLimitConfig {
+    return this.config.modelConfig.rateLimit ?? { maxConcurrency: 1 };
+  }
+
+  private collectTotals(): CombinationTotals[] {
+    return this.config.models.flatMap((model) =>
+      this.config.promptVariations.map((promptVariation) => ({
+        model,
+        promptVariation,
+        ...this.resultsAggregator.getStats(model, promptVariation),
+      })),
     );
   }
 
@@ -405,9 +771,26 @@ export class FeedBotProcessor {
       `Total combinations: ${this.config.models.length * this.config.promptVariations.length}`,
     );
     console.log(
-      `Rate limiting: ${this.config.delayMs}ms delay between requests, ${this.config.delayBetweenCombinationsMs}ms between combinations`,
+      `Rate limiting: ${describeRateLimit(this.getRateLimitConfig())}`,
     );
-    console.log(`Concurrency: ${this.config.concurrency}`);
+    for (const model of this.config.models) {
+      const chain = this.modelManager.getFallbackChain(model);
+      console.log(
+        `Model chain for ${model}: ${chain.map((target) => `${target.provider}:${target.model}`).join(" → ")}${chain.length === 1 ? " (no fallbacks)" : ""}`,
+      );
+      for (const variation of this.config.promptVariations) {
+        console.log(
+          `Generation for ${model} + ${variation}: ${JSON.stringify(this.modelManager.getGenerationParams(model, variation))}`,
+        );
+      }
+    }
+    for (const variation of this.config.promptVariations) {
+      if (this.promptGenerator.getStrategy(variation).reconstructed) {
+        console.warn(
+          `Prompt variation ${variation} is reconstructed; its hints are marked as such and do not reproduce the original runs`,
+        );
+      }
+    }
     if (this.config.limit) {
       console.log(
         `(Limited to first ${this.config.limit} rows per combination)`,
@@ -417,21 +800,49 @@ export class FeedBotProcessor {
 
     // Load CSV data
     const rows = this.loadCSV();
+    this.store.upsertRows(rows, this.config.csvPath);
+    const rowsToPrompt = (
+      this.config.limit ? rows.slice(0, this.config.limit) : rows
+    ).filter((row) => !this.promptGenerator.shouldSkipRow(row));
+    const specs = await this.promptGenerator.preloadSpecs(rowsToPrompt);
+
+    const manifest = this.startManifest(rows.length, specs);
+    const session = manifest.sessions[manifest.sessions.length - 1]!;
+    console.log(`Run ${this.runId} (results in ${this.store.dbPath})\n`);
+
+    // A resumed run keeps its budget unless a new one is given
+    const budget = this.config.budget ?? manifest.budget;
+    if (budget) {
+      this.budgetGuard = this.createBudgetGuard(budget);
+      console.log(`Budget: ${JSON.stringify(budget)}\n`);
+    }
 
-    // Process each model+prompt combination
-    for (const model of this.config.models) {
-      for (const promptVariation of this.config.promptVariations) {
-        await this.processCombination(rows, model, promptVariation);
-
-        // Add delay between combinations if configured
-        if (this.config.delayBetweenCombinationsMs! > 0) {
-          console.log(
-            `Waiting ${this.config.delayBetweenCombinationsMs}ms before next combination...`,
-          );
-          await this.sleep(this.config.delayBetweenCombinationsMs!);
+    try {
+      // Process each model+prompt combination
+      for (const model of this.config.models) {
+        for (const promptVariation of this.config.promptVariations) {
+          if (this.cancelled || this.isBudgetStopped(model)) {
+            break;
+          }
+          await this.processCombination(rows, model, promptVariation);
+          session.totals = this.collectTotals();
+          this.store.saveRun(manifest);
         }
       }
+    } catch (error) {
+      this.finishManifest(manifest, "failed");
+      this.store.close();
+      throw error;
+    }
+    const stops = [...this.budgetStops.values()].map((stop) => stop.message);
+    if (stops.length > 0) {
+      manifest.budgetStops = stops;
     }
+    this.finishManifest(
+      manifest,
+      this.cancelled ? "cancelled" : stops.length > 0 ? "halted" : "completed",
+    );
+    this.store.close();
 
     // Print final summary
     const summary = this.resultsAggregator.generateSummary(
@@ -439,5 +850,130 @@ export class FeedBotProcessor {
       this.config.promptVariations,
     );
     console.log(summary);
+    if (this.budgetGuard) {
+      console.log(`\nSpend:\n${this.budgetGuard.formatSpend()}`);
+    }
+    if (this.cancelled) {
+      console.log(
+        `\nCancelled. Continue with --resume ${this.runId} to process the remaining rows`,
+      );
+    } else if (stops.length > 0) {
+      this.reportBudgetStop(rows, stops);
+    }
+  }
+
+  /**
+   * How far a run got before a budget cap stopped it
+   */
+  private reportBudgetStop(rows: EvaluationRow[], stops: string[]): void {
+    const perCombination = this.config.limit
+      ? Math.min(this.config.limit, rows.length)
+      : rows.length;
+    console.log(`\n⛔ Stopped by budget: ${stops.join("; ")}`);
+    for (const { model, promptVariation, ...stats } of this.collectTotals()) {
+      const reached = stats.processed + stats.skipped + stats.failed;
+      if (reached < perCombination) {
+        console.log(
+          `  ${model} + ${promptVariation}: ${reached}/${perCombination} rows reached`,
+        );
+      }
+    }
+    console.log(
+      `Raise the cap and continue with --resume ${this.runId} (pass the new budget flags)`,
+    );
+  }
+
+  /**
+   * Render every prompt a run would send and project its tokens and cost,
+   * without calling a model or recording results
+   */
+  async dryRun(options: DryRunOptions = {}): Promise<CombinationEstimate[]> {
+    console.log(
+      `Dry run: ${this.config.models.length} models × ${this.config.promptVariations.length} prompt variations, no requests will be sent`,
+    );
+    if (this.config.runId) {
+      this.adoptReprocessFilter(this.store.requireRun(this.config.runId));
+    }
+
+    const rows = this.loadCSV();
+    const rowsToProcess = this.config.limit
+      ? rows.slice(0, this.config.limit)
+      : rows;
+    await this.promptGenerator.preloadSpecs(
+      rowsToProcess.filter((row) => !this.promptGenerator.shouldSkipRow(row)),
+    );
+
+    // Completion length comes from earlier hints where there are any
+    const completionTokens: Record<string, number> = {};
+    for (const model of this.config.models) {
+      const average = this.store.getAverageCompletionTokens(model);
+      if (average !== undefined) {
+        completionTokens[model] = average;
+      }
+    }
+    const estimator = new CostEstimator(
+      (model) => this.modelManager.getPricing(model),
+      completionTokens,
+    );
+
+    let written = 0;
+    for (const model of this.config.models) {
+      for (const promptVariation of this.config.promptVariations) {
+        const combination = this.getCombination(model, promptVariation);
+        for (const row of rowsToProcess) {
+          if (!this.planRow(row, combination).send) {
+            estimator.addSkipped(model, promptVariation);
+            continue;
+          }
+          const messages = toChatMessages(
+            await this.promptGenerator.generate(row, promptVariation),
+          );
+          estimator.addRequest(
+            model,
+            promptVariation,
+            messages,
+            this.config.modelConfig.sampling?.samples,
+          );
+          if (options.promptsDir) {
+            this.writePrompt(options.promptsDir, combination, row, messages);
+            written++;
+          }
+        }
+      }
+    }
+
+    console.log(`\n${estimator.formatReport()}`);
+    if (options.promptsDir) {
+      console.log(
+        `\n${written} prompt${written === 1 ? "" : "s"} written to ${options.promptsDir}`,
+      );
+    }
+    return estimator.getEstimates();
+  }
+
+  /**
+   * Save a rendered prompt as <dir>/<model>/<prompt>/<fingerprint>.md
+   */
+  private writePrompt(
+    dir: string,
+    combination: Combination,
+    row: EvaluationRow,
+    messages: ChatMessage[],
+  ): void {
+    const safe = (name: string) => name.replace(/[^\w.+-]+/g, "_");
+    const promptDir = path.join(
+      dir,
+      safe(combination.model),
+      safe(combination.promptVariation),
+    );
+    mkdirSync(promptDir, { recursive: true });
+    const body = messages
+      .map((message) => `## ${message.role}\n\n${message.content}`)
+      .join("\n\n");
+    writeFileSync(
+      path.join(promptDir, `${row.fingerprint}.md`),
+      `# ${this.rowLabel(row)}\n\n${body}\n`,
+      "utf-8",
+    );
   }
 }
@@ -0,0 +1,205 @@
+/**
+ * A single rule broken by a generated hint
+ */
+export interface HintViolation {
+  rule: string;
+  message: string;
+  excerpt?: string;
+}
+
+/**
+ * Outcome of checking a hint against the BASE_PROMPT output rules
+ */
+export interface HintValidationResult {
+  compliant: boolean;
+  violations: HintViolation[];
+}
+
+/**
+ * A pluggable compliance check. Rules return an empty array when the hint passes.
+ */
+export interface HintRule {
+  id: string;
+  check(hint: string): HintViolation[];
+}
+
+export const RETRY_SENTINEL = "RETRY";
+const MIN_SENTENCES = 3;
+const MAX_SENTENCES = 4;
+
+/**
+ * Split prose into sentences. Dots inside numbers ("section 5.3.5") and
+ * abbreviations followed by lowercase text ("e.g. the") do not end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .trim()
+    .split(/(?<=[.!?]["')\]]*)\s+(?=["'(]?[A-Z])/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function excerptAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 20);
+  const end = Math.min(text.length, index + length + 20);
+  return text.slice(start, end).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Build a rule that reports one violation per matching pattern
+ */
+function patternRule(
+  id: string,
+  patterns: Array<{ pattern: RegExp; message: string }>,
+): HintRule {
+  return {
+    id,
+    check(hint: string): HintViolation[] {
+      const violations: HintViolation[] = [];
+      for (const { pattern, message } of patterns) {
+        const match = pattern.exec(hint);
+        if (match) {
+          violations.push({
+            rule: id,
+            message,
+            excerpt: excerptAround(hint, match.index, match[0].length),
+          });
+        }
+      }
+      return violations;
+    },
+  };
+}
+
+export const RETRY_RULE: HintRule = {
+  id: "retry",
+  check(hint: string): HintViolation[] {
+    if (hint.trim() === "") {
+      return [{ rule: "retry", message: "Model returned an empty response" }];
+    }
+    if (hint.trim() === RETRY_SENTINEL) {
+      return [
+        {
+          rule: "retry",
+          message: `Model returned the ${RETRY_SENTINEL} sentinel instead of a hint`,
+        },
+      ];
+    }
+    return [];
+  },
+};
+
+export const SENTENCE_COUNT_RULE: HintRule = {
+  id: "sentence-count",
+  check(hint: string): HintViolation[] {
+    const count = splitSentences(hint).length;
+    if (count >= MIN_SENTENCES && count <= MAX_SENTENCES) {
+      return [];
+    }
+    return [
+      {
+        rule: "sentence-count",
+        message: `Expected ${MIN_SENTENCES}–${MAX_SENTENCES} sentences, found ${count}`,
+      },
+    ];
+  },
+};
+
+export const MARKDOWN_RULE: HintRule = patternRule("markdown", [
+  { pattern: /`/, message: "Contains backticks" },
+  { pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/, message: "Contains bold text" },
+  { pattern: /^\s{0,3}#{1,6}\s/m, message: "Contains a markdown header" },
+  {
+    pattern: /^\s*(?:[-*+•]|\d+[.)])\s+/m,
+    message: "Contains a bullet or numbered list",
+  },
+  {
+    pattern: /<\/?[a-z][a-z0-9-]*(?:\s[^<>]*)?>/i,
+    message: "Contains HTML tags",
+  },
+]);
+
+export const LINK_RULE: HintRule = patternRule("links", [
+  { pattern: /\[[^\]\n]*\]\([^)\n]*\)/, message: "Contains a markdown link" },
+  { pattern: /\bhttps?:\/\/\S+/i, message: "Contains a URL" },
+]);
+
+export const NEXT_STEP_RULE: HintRule = {
+  id: "next-step",
+  check(hint: string): HintViolation[] {
+    const sentences = splitSentences(hint);
+    const last = sentences[sentences.length - 1] ?? "";
+    if (last.startsWith("Next step:")) {
+      return [];
+    }
+    return [
+      {
+        rule: "next-step",
+        message: 'Last sentence does not begin with "Next step:"',
+        excerpt: last.slice(0, 80),
+      },
+    ];
+  },
+};
+
+export const LINE_NUMBER_RULE: HintRule = patternRule("line-numbers", [
+  { pattern: /\blines?\s+\d+/i, message: "Mentions a line number" },
+  { pattern: /\.java:\d+/i, message: "Mentions a source file line number" },
+]);
+
+export const FORBIDDEN_MENTION_RULE: HintRule = patternRule(
+  "forbidden-mentions",
+  [
+    { pattern: /\bauto-?grader/i, message: "Mentions the autograder" },
+    {
+      pattern: /\binstructor['’]?s?\s+solution/i,
+      message: "Mentions the instructor's solution",
+    },
+    {
+      pattern: /\breference\s+implementation/i,
+      message: "Mentions the reference implementation",
+    },
+  ],
+);
+
+export const DEFAULT_HINT_RULES: HintRule[] = [
+  RETRY_RULE,
+  SENTENCE_COUNT_RULE,
+  MARKDOWN_RULE,
+  LINK_RULE,
+  NEXT_STEP_RULE,
+  LINE_NUMBER_RULE,
+  FORBIDDEN_MENTION_RULE,
+];
+
+/**
+ * Checks generated hints against the output rules in BASE_PROMPT
+ */
+export class HintValidator {
+  private rules: HintRule[];
+
+  constructor(rules: HintRule[] = DEFAULT_HINT_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Register an additional rule
+   */
+  addRule(rule: HintRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Run every rule against a hint
+   */
+  validate(hint: string): HintValidationResult {
+    // The sentinel makes every other rule noise, so report it on its own
+    const retryViolations = RETRY_RULE.check(hint);
+    if (retryViolations.length > 0 && this.rules.includes(RETRY_RULE)) {
+      return { compliant: false, violations: retryViolations };
+    }
+
+    const violations = this.rules.flatMap((rule) => rule.check(hint));
+    return { compliant: violations.length === 0, violations };
+  }
+}
@@ -0,0 +1,138 @@
+import { extractAssertionValues } from "../../src/assignmentGroupErrors.js";
+import type { EvaluationRow } from "./PromptGenerator.js";
+
+export type LeakSource = "expected" | "actual" | "quoted" | "numeric";
+
+/**
+ * A value from the failing test log that the hint must not reveal
+ */
+export interface LeakCandidate {
+  value: string;
+  source: LeakSource;
+}
+
+export interface LeakMatch extends LeakCandidate {
+  match: "verbatim" | "near-verbatim";
+}
+
+export interface LeakCheckResult {
+  leaked: boolean;
+  matches: LeakMatch[];
+}
+
+/**
+ * Flags hints that repeat expected/actual values, quoted strings or numeric
+ * literals from the test log, enforcing the non_disclosure rules in BASE_PROMPT
+ */
+export class LeakDetector {
+  // Values too generic to count as giving the answer away
+  private static readonly TRIVIAL_VALUES = new Set([
+    "true",
+    "false",
+    "null",
+    "0",
+    "1",
+    "",
+  ]);
+  private static readonly QUOTED_PATTERN =
+    /"([^"\n]{2,120})"|'([^'\n]{2,120})'|“([^”\n]{2,120})”/g;
+  private static readonly NUMERIC_PATTERN =
+    /(?<![\w.])\d+(?:\.\d+|\/\d+)(?![\w.]*\d)/g;
+  private static readonly IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$.]*$/;
+  private static readonly STACK_FRAME_PATTERN = /^\s*at\s+\S+\(.*\)\s*$/;
+
+  /**
+   * Collect every value in the log that a hint should not repeat
+   */
+  extractCandidates(row: EvaluationRow): LeakCandidate[] {
+    const candidates: LeakCandidate[] = [];
+    const seen = new Set<string>();
+    const add = (value: string, source: LeakSource) => {
+      const trimmed = value.trim();
+      if (
+        LeakDetector.TRIVIAL_VALUES.has(trimmed.toLowerCase()) ||
+        seen.has(trimmed) ||
+        // Test names may be referenced freely
+        row.name.includes(trimmed)
+      ) {
+        return;
+      }
+      seen.add(trimmed);
+      candidates.push({ value: trimmed, source });
+    };
+
+    const assertion = extractAssertionValues(row.output);
+    if (assertion) {
+      add(assertion.expected, "expected");
+      add(assertion.actual, "actual");
+    }
+
+    // Stack frames are full of file names and line numbers, not answers
+    const logText = row.output
+      .split("\n")
+      .filter((line) => !LeakDetector.STACK_FRAME_PATTERN.test(line))
+      .join("\n");
+
+    for (const match of logText.matchAll(LeakDetector.QUOTED_PATTERN)) {
+      const value = match[1] ?? match[2] ?? match[3] ?? "";
+      // Bare identifiers are class/method names, which hints may mention
+      if (!LeakDetector.IDENTIFIER_PATTERN.test(value.trim())) {
+        add(value, "quoted");
+      }
+    }
+
+    for (const match of logText.matchAll(LeakDetector.NUMERIC_PATTERN)) {
+      add(match[0], "numeric");
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Check a hint against the values extracted from its row's log
+   */
+  check(hint: string, row: EvaluationRow): LeakCheckResult {
+    const normalizedHint = this.normalize(hint);
+    const matches: LeakMatch[] = [];
+
+    for (const candidate of this.extractCandidates(row)) {
+      if (this.containsValue(hint, candidate.value)) {
+        matches.push({ ...candidate, match: "verbatim" });
+        continue;
+      }
+
+      // "2.0" normalizes to "2", which is too common to flag on its own
+      const normalizedValue = this.normalize(candidate.value);
+      if (
+        !/^\d*$/.test(normalizedValue) &&
+        this.containsValue(normalizedHint, normalizedValue)
+      ) {
+        matches.push({ ...candidate, match: "near-verbatim" });
+      }
+    }
+
+    return { leaked: matches.length > 0, matches };
+  }
+
+  /**
+   * Substring match that will not find "1.5" inside "11.55"
+   */
+  private containsValue(text: string, value: string): boolean {
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(`(?<![\\w.])${escaped}(?![\\w]|\\.\\d)`);
+    return pattern.test(text);
+  }
+
+  /**
+   * Fold away differences in case, quoting, spacing and trailing ".0"
+   * so near-verbatim repeats are caught
+   */
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[“”‘’"'`]/g, "")
+      .replace(/\b(\d+)\.0+\b/g, "$1")
+      .replace(/\s+/g, " ")
+      .replace(/^[\s.,;:!?]+|[\s.,;:!?]+$/g, "");
+  }
+}
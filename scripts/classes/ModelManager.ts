@@ -1,20 +1,184 @@
+import {
+  CandidateSelector,
+  parseJudgeVerdict,
+  type CandidateJudge,
+  type CandidateSelection,
+  type HintCandidate,
+  type SamplingConfig,
+} from "./CandidateSelector.js";
+import {
+  CitationChecker,
+  type CitationCheckResult,
+} from "./CitationChecker.js";
+import {
+  HintValidator,
+  RETRY_SENTINEL,
+  type HintValidationResult,
+} from "./HintValidator.js";
+import { LeakDetector, type LeakCheckResult } from "./LeakDetector.js";
 import type { EvaluationRow } from "./PromptGenerator.js";
-import { PromptGenerator } from "./PromptGenerator.js";
+import { PromptGenerator, toChatMessages } from "./PromptGenerator.js";
+import {
+  DEFAULT_GENERATION_PROFILE,
+  JUDGE_GENERATION_PROFILE,
+  MODEL_GENERATION_PROFILES,
+  MODEL_PRICING,
+  type GenerationProfile,
+  type LlmProvider,
+  type ModelTarget,
+  type ResolvedModelTarget,
+} from "../../constants/models.js";
+import { PROMPT_GENERATION_OVERRIDES } from "../../constants/promptData.js";
+import { AnthropicModelClient } from "./providers/AnthropicModelClient.js";
 import { AzureModelClient } from "./providers/AzureModelClient.js";
+import { LocalModelClient } from "./providers/LocalModelClient.js";
+import {
+  MockModelClient,
+  type MockScript,
+} from "./providers/MockModelClient.js";
 import { OpenRouterModelClient } from "./providers/OpenRouterModelClient.js";
+import type { ModelPricing } from "./providers/pricing.js";
 import type {
+  ChatMessage,
+  GenerationParams,
   LlmProviderClient,
+  ProviderRequestOptions,
+  ProviderResult,
   UsageMetadata,
 } from "./providers/providerTypes.js";
+import {
+  classifyProviderError,
+  RateLimiterPool,
+  type RateLimitConfig,
+  type RateLimiter,
+} from "./RateLimiter.js";
+import type { SpecSliceSummary } from "./SpecSlicer.js";
+import {
+  parseStructuredHint,
+  STRUCTURED_HINT_SCHEMA,
+  StructuredHintError,
+  type HintDiagnosis,
+} from "./StructuredHint.js";
 
-export interface ModelConfig {
-  provider: "azure" | "openrouter";
+/**
+ * Controls how ModelManager re-asks the model after a RETRY or non-compliant hint
+ */
+export interface RepairConfig {
+  maxAttempts: number; // Total attempts per row, including the first
+  includeFeedback?: boolean; // Append the violation list to the re-ask
+}
+
+export const DEFAULT_REPAIR_CONFIG: RepairConfig = {
+  maxAttempts: 3,
+  includeFeedback: true,
+};
+
+/**
+ * Credentials and settings for one provider
+ */
+export interface ProviderConnection {
+  provider: LlmProvider;
   apiKey: string;
   endpoint?: string;
   apiVersion?: string;
   fetchCosts?: boolean;
+  mock?: MockScript;
+  pricing?: Record<string, ModelPricing>; // Overrides MODEL_PRICING (local, anthropic)
+}
+
+export interface ModelConfig extends ProviderConnection {
+  repair?: RepairConfig;
+  rateLimit?: RateLimitConfig; // Defaults to one request at a time
+  request?: RequestSettings;
+  fallbacks?: Record<string, ModelTarget[]>; // Per model, tried in order
+  connections?: ProviderConnection[]; // Other providers fallbacks run on
+  generation?: GenerationSettings;
+  sampling?: SamplingConfig; // Draw several hints per row and keep one
+}
+
+/**
+ * Generation profiles on top of MODEL_GENERATION_PROFILES and
+ * PROMPT_GENERATION_OVERRIDES
+ */
+export interface GenerationSettings {
+  models?: Record<string, GenerationProfile>;
+  variations?: Record<string, GenerationParams>;
+}
+
+/**
+ * DEFAULT_GENERATION_PROFILE, then the model's profile, then each override
+ * in turn. Sampling parameters are left out for models that do not support
+ * them.
+ */
+function resolveProfile(
+  model: string,
+  settings: GenerationSettings,
+  ...overrides: Array<GenerationProfile | undefined>
+): GenerationParams {
+  const unprefixed = model.split("/").pop() ?? model;
+  const { supportsTemperature, ...params } = [
+    DEFAULT_GENERATION_PROFILE,
+    MODEL_GENERATION_PROFILES[unprefixed],
+    MODEL_GENERATION_PROFILES[model],
+    settings.models?.[unprefixed],
+    settings.models?.[model],
+    ...overrides,
+  ].reduce<GenerationProfile>(
+    (profile, override) => ({ ...profile, ...override }),
+    {},
+  );
+  if (supportsTemperature === false) {
+    delete params.temperature;
+    delete params.topP;
+  }
+  return params;
 }
 
+/**
+ * The generation parameters sent to a model for a prompt variation: the
+ * model's profile, then the variation's overrides, then maxTokens
+ * (--max-tokens)
+ */
+export function resolveGenerationParams(
+  model: string,
+  promptVariation: string,
+  settings: GenerationSettings = {},
+  maxTokens?: number,
+): GenerationParams {
+  return resolveProfile(
+    model,
+    settings,
+    PROMPT_GENERATION_OVERRIDES[promptVariation],
+    settings.variations?.[promptVariation],
+    maxTokens !== undefined ? { maxTokens } : undefined,
+  );
+}
+
+/**
+ * The generation parameters sent to a judge model: its profile, then
+ * JUDGE_GENERATION_PROFILE, then maxTokens (--max-tokens)
+ */
+export function resolveJudgeParams(
+  model: string,
+  settings: GenerationSettings = {},
+  maxTokens?: number,
+): GenerationParams {
+  return resolveProfile(
+    model,
+    settings,
+    JUDGE_GENERATION_PROFILE,
+    maxTokens !== undefined ? { maxTokens } : undefined,
+  );
+}
+
+/**
+ * Request options that apply to every request a run sends
+ */
+export type RequestSettings = Pick<
+  ProviderRequestOptions,
+  "maxTokens" | "timeoutMs" | "stream"
+>;
+
 export type { UsageMetadata } from "./providers/providerTypes.js";
 
 export interface ProcessingResult {
@@ -22,29 +186,253 @@ export interface ProcessingResult {
   timestamp: string;
   error?: string;
   usage?: UsageMetadata;
+  validation: HintValidationResult;
+  leak: LeakCheckResult;
+  citations: CitationCheckResult;
+  attempts: number;
+  assignmentId: string;
+  specHash: string;
+  promptVersion: number; // Strategy template version the hint was generated with
+  promptReconstructed: boolean; // The strategy text is not the original
+  promptHash: string;
+  specSlice?: SpecSliceSummary;
+  generation: GenerationParams; // As sent to the model that answered
+  servedBy?: ResolvedModelTarget; // Set when a fallback answered
+  diagnosis?: HintDiagnosis; // JSON output mode only
+  selection?: CandidateSelection; // Set when several samples were drawn
 }
 
 /**
- * Manages LLM API calls for Azure OpenAI and OpenRouter
+ * How the requests for a row are sent
+ */
+interface CallSettings {
+  row: EvaluationRow;
+  promptVariation: string;
+  signal: AbortSignal | undefined;
+  sample: number; // Which of the row's samples, from 0
+  structured: boolean; // Ask for STRUCTURED_HINT_SCHEMA
+  judge?: boolean; // A judge request rather than a hint
+}
+
+/**
+ * A checked response, with what a repair of it needs
+ */
+interface Sample {
+  candidate: HintCandidate;
+  response: string; // As the model sent it, before any JSON was read
+  index: number; // Position in the fallback chain of the model that answered
+  sample: number;
+  generation: GenerationParams;
+}
+
+/**
+ * A model response read as a hint: in JSON output mode the hint is taken
+ * from the JSON, and JSON that cannot be read fails validation
+ */
+interface ReadResponse {
+  hint: string;
+  validation: HintValidationResult;
+  diagnosis?: HintDiagnosis;
+}
+
+/**
+ * Thrown when every repair attempt returned RETRY or a non-compliant hint
+ */
+export class HintRepairError extends Error {
+  readonly reason: string;
+  readonly attempts: number;
+  readonly lastHint: string;
+  readonly validation: HintValidationResult;
+  readonly usage: UsageMetadata | undefined;
+  readonly servedBy: ResolvedModelTarget | undefined;
+
+  constructor(
+    reason: string,
+    attempts: number,
+    lastHint: string,
+    validation: HintValidationResult,
+    usage: UsageMetadata | undefined,
+    servedBy?: ResolvedModelTarget,
+  ) {
+    super(`No compliant hint after ${attempts} attempt(s): ${reason}`);
+    this.name = "HintRepairError";
+    this.reason = reason;
+    this.attempts = attempts;
+    this.lastHint = lastHint;
+    this.validation = validation;
+    this.usage = usage;
+    this.servedBy = servedBy;
+  }
+}
+
+/**
+ * Thrown when a row fails other than by running out of repairs: every
+ * sample failed, a repair or judge request failed, or the row was
+ * cancelled. Carries the usage of the requests that answered, if any, so
+ * they still count towards the budget.
+ */
+export class PartialRowError extends Error {
+  readonly usage: UsageMetadata | undefined;
+  readonly attempts: number;
+  readonly servedBy: ResolvedModelTarget | undefined;
+
+  constructor(
+    cause: unknown,
+    usage: UsageMetadata | undefined,
+    attempts: number,
+    servedBy?: ResolvedModelTarget,
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "PartialRowError";
+    this.usage = usage;
+    this.attempts = attempts;
+    this.servedBy = servedBy;
+  }
+}
+
+function addOptional(
+  a: number | undefined,
+  b: number | undefined,
+): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+}
+
+/**
+ * Sum token counts and costs across several calls for the same row.
+ * Cost is only kept when every call reported one, so partial totals never
+ * look like complete ones.
+ */
+export function sumUsage(
+  total: UsageMetadata | undefined,
+  next: UsageMetadata | undefined,
+): UsageMetadata | undefined {
+  if (!total) return next;
+  if (!next) return total;
+
+  const summed: UsageMetadata = {};
+  const promptTokens = addOptional(total.promptTokens, next.promptTokens);
+  const completionTokens = addOptional(
+    total.completionTokens,
+    next.completionTokens,
+  );
+  const totalTokens = addOptional(total.totalTokens, next.totalTokens);
+  const cacheReadTokens = addOptional(
+    total.cacheReadTokens,
+    next.cacheReadTokens,
+  );
+  const cacheWriteTokens = addOptional(
+    total.cacheWriteTokens,
+    next.cacheWriteTokens,
+  );
+  if (promptTokens !== undefined) summed.promptTokens = promptTokens;
+  if (completionTokens !== undefined)
+    summed.completionTokens = completionTokens;
+  if (totalTokens !== undefined) summed.totalTokens = totalTokens;
+  if (cacheReadTokens !== undefined) summed.cacheReadTokens = cacheReadTokens;
+  if (cacheWriteTokens !== undefined)
+    summed.cacheWriteTokens = cacheWriteTokens;
+  if (total.costUSD !== undefined && next.costUSD !== undefined) {
+    summed.costUSD = total.costUSD + next.costUSD;
+  }
+  const responseId = next.responseId ?? total.responseId;
+  if (responseId !== undefined) summed.responseId = responseId;
+  return summed;
+}
+
+function describeViolations(validation: HintValidationResult): string {
+  return validation.violations.map((v) => v.message).join("; ");
+}
+
+/**
+ * Manages LLM API calls for Azure OpenAI, OpenRouter, Anthropic, local
+ * OpenAI-compatible servers and the offline mock provider
  */
 export class ModelManager {
   private config: ModelConfig;
   private promptGenerator: PromptGenerator;
-  private providerClient: LlmProviderClient;
+  private providerClients: Map<LlmProvider, LlmProviderClient>;
+  private rateLimiters: RateLimiterPool;
+  private hintValidator: HintValidator;
+  private leakDetector: LeakDetector;
+  private citationChecker: CitationChecker;
 
-  constructor(config: ModelConfig, promptGenerator: PromptGenerator) {
+  constructor(
+    config: ModelConfig,
+    promptGenerator: PromptGenerator,
+    hintValidator: HintValidator = new HintValidator(),
+    leakDetector: LeakDetector = new LeakDetector(),
+    citationChecker: CitationChecker = new CitationChecker(),
+  ) {
     this.config = config;
     this.promptGenerator = promptGenerator;
+    this.hintValidator = hintValidator;
+    this.leakDetector = leakDetector;
+    this.citationChecker = citationChecker;
+    this.providerClients = new Map();
+    this.rateLimiters = new RateLimiterPool(
+      config.rateLimit ?? { maxConcurrency: 1 },
+    );
+  }
+
+  /**
+   * A provider's client, created on first use so dry runs need no credentials
+   */
+  private getProviderClient(
+    provider: LlmProvider = this.config.provider,
+  ): LlmProviderClient {
+    let client = this.providerClients.get(provider);
+    if (!client) {
+      client = this.createProviderClient(this.getConnection(provider));
+      this.providerClients.set(provider, client);
+    }
+    return client;
+  }
+
+  private getConnection(provider: LlmProvider): ProviderConnection {
+    if (provider === this.config.provider) {
+      return this.config;
+    }
+    const connection = this.config.connections?.find(
+      (candidate) => candidate.provider === provider,
+    );
+    if (!connection) {
+      throw new Error(`No ${provider} credentials configured for a fallback`);
+    }
+    return connection;
+  }
 
+  private createProviderClient(config: ProviderConnection): LlmProviderClient {
     if (config.provider === "azure") {
-      this.validateAzureConfig();
-      this.providerClient = new AzureModelClient({
+      if (!config.endpoint || !config.apiVersion) {
+        throw new Error(
+          "Azure requires endpoint and apiVersion in ModelConfig",
+        );
+      }
+      return new AzureModelClient({
+        apiKey: config.apiKey,
+        endpoint: config.endpoint,
+        apiVersion: config.apiVersion,
+      });
+    } else if (config.provider === "anthropic") {
+      return new AnthropicModelClient({
+        apiKey: config.apiKey,
+        pricing: { ...MODEL_PRICING, ...config.pricing },
+      });
+    } else if (config.provider === "local") {
+      if (!config.endpoint) {
+        throw new Error(
+          "Local provider requires endpoint (base URL) in ModelConfig",
+        );
+      }
+      return new LocalModelClient({
+        baseURL: config.endpoint,
         apiKey: config.apiKey,
-        endpoint: config.endpoint!,
-        apiVersion: config.apiVersion!,
+        pricing: { ...MODEL_PRICING, ...config.pricing },
       });
+    } else if (config.provider === "mock") {
+      return new MockModelClient(config.mock);
     } else {
-      this.providerClient = new OpenRouterModelClient({
+      return new OpenRouterModelClient({
         apiKey: config.apiKey,
         ...(config.fetchCosts !== undefined
           ? { fetchCosts: config.fetchCosts }
@@ -53,48 +441,439 @@ export class ModelManager {
     }
   }
 
-  private validateAzureConfig(): void {
-    if (!this.config.endpoint || !this.config.apiVersion) {
-      throw new Error("Azure requires endpoint and apiVersion in ModelConfig");
-    }
+  /**
+   * Paces and retries the requests sent to a model
+   */
+  getRateLimiter(
+    model: string,
+    provider: LlmProvider = this.config.provider,
+  ): RateLimiter {
+    return this.rateLimiters.get(provider, model);
+  }
+
+  /**
+   * The model followed by its fallbacks, in the order they are tried
+   */
+  getFallbackChain(model: string): ResolvedModelTarget[] {
+    const fallbacks = this.config.fallbacks?.[model] ?? [];
+    return [{ model }, ...fallbacks].map((target) => ({
+      provider: target.provider ?? this.config.provider,
+      model: target.model,
+    }));
+  }
+
+  /**
+   * Per-million-token prices for a model, or undefined when none are known
+   */
+  getPricing(model: string): ModelPricing | undefined {
+    const connectionPricing = (this.config.connections ?? []).map(
+      (connection) => connection.pricing,
+    );
+    return Object.assign(
+      {},
+      MODEL_PRICING,
+      ...connectionPricing,
+      this.config.pricing,
+    )[model];
+  }
+
+  /**
+   * The generation parameters sent to a model for a prompt variation, with
+   * this run's settings and --max-tokens
+   */
+  getGenerationParams(
+    model: string,
+    promptVariation: string,
+  ): GenerationParams {
+    return resolveGenerationParams(
+      model,
+      promptVariation,
+      this.config.generation,
+      this.config.request?.maxTokens,
+    );
   }
 
-  private supportsTemperature(model: string): boolean {
-    const normalizedModel = model.split("/").pop() ?? model;
-    return (
-      !normalizedModel.startsWith("gpt-5") && !normalizedModel.startsWith("o1")
+  getJudgeParams(model: string): GenerationParams {
+    return resolveJudgeParams(
+      model,
+      this.config.generation,
+      this.config.request?.maxTokens,
     );
   }
 
+  /**
+   * Generation parameters for one of a row's samples. A configured seed is
+   * offset by the sample number, or every sample would be the same.
+   */
+  private getSampleParams(
+    model: string,
+    promptVariation: string,
+    sample: number,
+  ): GenerationParams {
+    const params = this.getGenerationParams(model, promptVariation);
+    return params.seed !== undefined
+      ? { ...params, seed: params.seed + sample }
+      : params;
+  }
+
   async processRow(
     row: EvaluationRow,
     model: string,
     promptVariation: string,
+    signal?: AbortSignal,
   ): Promise<ProcessingResult> {
-    const prompt = this.promptGenerator.generate(row, promptVariation);
-    const messages = [{ role: "user" as const, content: prompt }];
-    const temperature = this.supportsTemperature(model) ? 0.2 : undefined;
+    const prompt = await this.promptGenerator.generate(row, promptVariation);
+    const messages = toChatMessages(prompt);
+    const repair = this.config.repair ?? DEFAULT_REPAIR_CONFIG;
+    const maxAttempts = Math.max(1, repair.maxAttempts);
+    const samples = Math.max(1, this.config.sampling?.samples ?? 1);
+    // Citations are checked against the full spec, even when it was sliced
+    const spec = (await this.promptGenerator.loadSpec(row)).content;
+    const chain = this.getFallbackChain(model);
+    const settings = (sample: number): CallSettings => ({
+      row,
+      promptVariation,
+      signal,
+      sample,
+      structured: this.promptGenerator.outputMode === "json",
+    });
 
-    try {
-      const result = await this.providerClient.process(
-        model,
-        messages,
-        temperature,
+    // The first attempt draws every sample; a sample that fails outright
+    // only fails the row when all of them do
+    const drawn = await Promise.allSettled(
+      Array.from({ length: samples }, (_, sample) =>
+        this.drawSample(chain, 0, messages, spec, settings(sample)),
+      ),
+    );
+    const answered = drawn.flatMap((outcome) =>
+      outcome.status === "fulfilled" ? [outcome.value] : [],
+    );
+    if (answered.length === 0) {
+      // Requests that fail outright report no usage, so there is none to
+      // carry, but the row still fails the same way as a partial one
+      const reasons = drawn.map(
+        (outcome) => (outcome as PromiseRejectedResult).reason as unknown,
+      );
+      const failures = new Set(
+        reasons.map((reason) =>
+          reason instanceof Error ? reason.message : String(reason),
+        ),
+      );
+      throw new PartialRowError(
+        samples > 1
+          ? new Error(
+              `All ${samples} samples failed: ${[...failures].join("; ")}`,
+              { cause: reasons[0] },
+            )
+          : reasons[0],
+        undefined,
+        1,
       );
+    }
+    let usage = answered.reduce<UsageMetadata | undefined>(
+      (total, sample) => sumUsage(total, sample.candidate.usage),
+      undefined,
+    );
 
-      const processingResult: ProcessingResult = {
-        hint: result.content,
-        timestamp: new Date().toISOString(),
-      };
+    let current = answered[0]!;
+    let selection: CandidateSelection | undefined;
+    let attempt = 1;
+    try {
+      signal?.throwIfAborted();
+      if (samples > 1) {
+        const selected = await this.selectSample(answered, chain, settings(0));
+        selection = selected.selection;
+        usage = sumUsage(usage, selected.usage);
+        signal?.throwIfAborted();
+        const kept = selection.selected;
+        current = answered.find((sample) => sample.sample === kept)!;
+        const failed = samples - answered.length;
+        if (failed > 0) {
+          selection.rationale += `; ${failed} of ${samples} samples failed`;
+        }
+      }
 
-      if (result.usage) {
-        processingResult.usage = result.usage;
+      // Repairs go to whichever model in the chain answered the last attempt
+      while (!current.candidate.validation.compliant && attempt < maxAttempts) {
+        attempt++;
+        const attemptMessages = repair.includeFeedback
+          ? this.buildRepairMessages(
+              messages,
+              current.response,
+              current.candidate.validation,
+            )
+          : messages;
+        current = await this.drawSample(
+          chain,
+          current.index,
+          attemptMessages,
+          spec,
+          settings(current.sample),
+        );
+        usage = sumUsage(usage, current.candidate.usage);
       }
+    } catch (error) {
+      throw new PartialRowError(
+        error,
+        usage,
+        attempt,
+        current.candidate.servedBy,
+      );
+    }
+
+    const { candidate } = current;
+    if (!candidate.validation.compliant) {
+      throw new HintRepairError(
+        describeViolations(candidate.validation),
+        attempt,
+        candidate.hint,
+        candidate.validation,
+        usage,
+        candidate.servedBy,
+      );
+    }
+    if (selection && attempt > 1) {
+      selection.rationale += `; repaired in ${attempt - 1} more attempt(s)`;
+    }
+
+    const processingResult: ProcessingResult = {
+      hint: candidate.hint,
+      timestamp: new Date().toISOString(),
+      validation: candidate.validation,
+      leak: candidate.leak,
+      citations: candidate.citations,
+      attempts: attempt,
+      assignmentId: prompt.assignmentId,
+      specHash: prompt.specHash,
+      promptVersion: prompt.strategyVersion,
+      promptReconstructed: prompt.strategyReconstructed,
+      promptHash: prompt.promptHash,
+      ...(prompt.specSlice ? { specSlice: prompt.specSlice } : {}),
+      generation: current.generation,
+      ...(candidate.servedBy ? { servedBy: candidate.servedBy } : {}),
+      ...(candidate.diagnosis ? { diagnosis: candidate.diagnosis } : {}),
+      ...(selection ? { selection } : {}),
+    };
+    if (usage) {
+      processingResult.usage = usage;
+    }
+    return processingResult;
+  }
 
-      return processingResult;
+  /**
+   * Request one response and run the compliance, leak and citation checks
+   * on it
+   */
+  private async drawSample(
+    chain: ResolvedModelTarget[],
+    start: number,
+    messages: ChatMessage[],
+    spec: string,
+    settings: CallSettings,
+  ): Promise<Sample> {
+    const { result, index } = await this.callChain(
+      chain,
+      start,
+      messages,
+      settings,
+    );
+    const target = chain[index]!;
+    const { hint, validation, diagnosis } = this.readResponse(result.content);
+    return {
+      candidate: {
+        sample: settings.sample,
+        hint,
+        validation,
+        leak: this.leakDetector.check(hint, settings.row),
+        citations: this.citationChecker.check(hint, spec),
+        ...(diagnosis ? { diagnosis } : {}),
+        ...(result.usage ? { usage: result.usage } : {}),
+        ...(index > 0 ? { servedBy: target } : {}),
+      },
+      response: result.content,
+      index,
+      sample: settings.sample,
+      generation: this.getSampleParams(
+        target.model,
+        settings.promptVariation,
+        settings.sample,
+      ),
+    };
+  }
+
+  /**
+   * Pick one of a row's samples with the configured scorer. usage is the
+   * judge's, when one was asked.
+   */
+  private async selectSample(
+    samples: Sample[],
+    chain: ResolvedModelTarget[],
+    settings: CallSettings,
+  ): Promise<{ selection: CandidateSelection; usage?: UsageMetadata }> {
+    const sampling = this.config.sampling!;
+    const judgeTarget: ResolvedModelTarget = sampling.judge
+      ? {
+          provider: sampling.judge.provider ?? this.config.provider,
+          model: sampling.judge.model,
+        }
+      : chain[0]!;
+    let usage: UsageMetadata | undefined;
+
+    const judge: CandidateJudge = async (candidates, eligible) => {
+      const shown = new Map(
+        eligible.map((index) => [candidates[index]!.sample + 1, index]),
+      );
+      const content = this.promptGenerator.generateJudgePrompt(
+        settings.row,
+        new Map(
+          [...shown].map(([number, index]) => [
+            number,
+            candidates[index]!.hint,
+          ]),
+        ),
+      );
+      const result = await this.callModel(
+        judgeTarget,
+        [{ role: "user", content }],
+        { ...settings, structured: false, judge: true },
+        undefined,
+      );
+      usage = result.usage;
+      return parseJudgeVerdict(result.content, shown);
+    };
+
+    const selection = await new CandidateSelector(sampling.scorer).select(
+      samples.map((sample) => sample.candidate),
+      judge,
+    );
+    return { selection, ...(usage ? { usage } : {}) };
+  }
+
+  private readResponse(content: string): ReadResponse {
+    if (
+      this.promptGenerator.outputMode !== "json" ||
+      content.trim() === RETRY_SENTINEL
+    ) {
+      return {
+        hint: content,
+        validation: this.hintValidator.validate(content),
+      };
+    }
+    try {
+      const { hint, diagnosis } = parseStructuredHint(content);
+      return {
+        hint,
+        validation: this.hintValidator.validate(hint),
+        diagnosis,
+      };
     } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      throw new Error(`API call failed: ${msg}`);
+      if (!(error instanceof StructuredHintError)) {
+        throw error;
+      }
+      return {
+        hint: content,
+        validation: {
+          compliant: false,
+          violations: [{ rule: "json", message: error.message }],
+        },
+      };
     }
   }
+
+  /**
+   * Send to the chain's models in order from `start` until one answers. A
+   * model is passed over when it is missing (404) or its rate limiter gave up
+   * retrying it. Other errors, such as a bad key or request, would fail the
+   * same way on every model, so they end the chain, as does a cancellation.
+   */
+  private async callChain(
+    chain: ResolvedModelTarget[],
+    start: number,
+    messages: ChatMessage[],
+    settings: CallSettings,
+  ): Promise<{ result: ProviderResult; index: number }> {
+    const { signal } = settings;
+    const errors: string[] = [];
+    for (let index = start; index < chain.length; index++) {
+      const target = chain[index]!;
+      try {
+        const fallbackFor = index > 0 ? chain[0]!.model : undefined;
+        return {
+          result: await this.callModel(target, messages, settings, fallbackFor),
+          index,
+        };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        errors.push(chain.length > 1 ? `${target.model}: ${msg}` : msg);
+        const next = chain[index + 1];
+        const failure = classifyProviderError(error);
+        const unavailable = failure.kind !== "fatal" || failure.status === 404;
+        if (signal?.aborted || !unavailable || !next) {
+          break;
+        }
+        console.warn(
+          `[${chain[0]!.model}] ${target.provider}:${target.model} failed (${msg}); falling back to ${next.provider}:${next.model}`,
+        );
+      }
+    }
+    throw new Error(`API call failed: ${errors.join("; ")}`);
+  }
+
+  private async callModel(
+    target: ResolvedModelTarget,
+    messages: ChatMessage[],
+    settings: CallSettings,
+    fallbackFor: string | undefined,
+  ): Promise<ProviderResult> {
+    const { provider, model } = target;
+    const { row, signal } = settings;
+    const options: ProviderRequestOptions = {
+      ...this.config.request,
+      ...(settings.judge
+        ? this.getJudgeParams(model)
+        : this.getSampleParams(
+            model,
+            settings.promptVariation,
+            settings.sample,
+          )),
+      ...(signal ? { signal } : {}),
+      ...(settings.structured ? { jsonSchema: STRUCTURED_HINT_SCHEMA } : {}),
+      context: {
+        fingerprint: row.fingerprint,
+        testName: row.name,
+        ...(fallbackFor !== undefined ? { fallbackFor } : {}),
+        ...(settings.judge ? { judge: true } : {}),
+      },
+    };
+    return this.getRateLimiter(model, provider).run(
+      () => this.getProviderClient(provider).process(model, messages, options),
+      signal,
+    );
+  }
+
+  /**
+   * Replay the rejected response and ask for a rewrite that fixes the listed
+   * rules
+   */
+  private buildRepairMessages(
+    messages: ChatMessage[],
+    previousResponse: string,
+    validation: HintValidationResult,
+  ): ChatMessage[] {
+    const problems = validation.violations
+      .map((v) => `- ${v.message}`)
+      .join("\n");
+    const output =
+      this.promptGenerator.outputMode === "json"
+        ? 'Output ONLY the JSON object described in <json_output>, with the message in its "hint" field.'
+        : "Output ONLY the student-facing message.";
+    return [
+      ...messages,
+      { role: "assistant", content: previousResponse },
+      {
+        role: "user",
+        content: `Your previous response did not follow the output rules:\n${problems}\n\nRewrite the message so it follows every rule in <output_format>. ${output}`,
+      },
+    ];
+  }
 }
@@ -1,8 +1,14 @@
-import { existsSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
-import { fileURLToPath } from "url";
+import { ResultsStore } from "./ResultsStore.js";
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const OPENROUTER_LEDGER = "openrouter";
+export const ANTHROPIC_LEDGER = "anthropic";
+
+// JSON files the ledgers lived in before the results store; read by the importer
+export const LEGACY_LEDGER_FILES: Record<string, string> = {
+  [OPENROUTER_LEDGER]: "openrouter_cost_ledger.json",
+  [ANTHROPIC_LEDGER]: "anthropic_cost_ledger.json",
+};
 
 export interface CostLedgerEntry {
   timestamp: string;
@@ -10,7 +16,10 @@ export interface CostLedgerEntry {
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
   costUSD: number;
+  fallbackFor?: string; // Set when this model answered in place of another
 }
 
 export interface CostLedgerSummary {
@@ -19,6 +28,8 @@ export interface CostLedgerSummary {
   totalPromptTokens: number;
   totalCompletionTokens: number;
   totalTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheWriteTokens: number;
   totalCostUSD: number;
 }
 
@@ -31,50 +42,35 @@ export interface CostLedgerData {
 
 /**
  * Manages persistent cost tracking for OpenRouter requests.
- * Stores all costs in feedbotOutput/openrouter_cost_ledger.json
+ * Costs are kept in the results store under the "openrouter" ledger; other
+ * providers that report per-request costs (Anthropic) use their own ledger.
  */
 export class OpenRouterCostLedger {
-  private ledgerPath: string;
-
-  constructor() {
-    const feedbotOutputDir = path.join(__dirname, "../../feedbotOutput");
-    this.ledgerPath = path.join(
-      feedbotOutputDir,
-      "openrouter_cost_ledger.json",
-    );
+  private ledgerName: string;
+  private store: ResultsStore;
+
+  constructor(
+    ledgerName: string = OPENROUTER_LEDGER,
+    store: ResultsStore = new ResultsStore(),
+  ) {
+    this.ledgerName = ledgerName;
+    this.store = store;
   }
 
   /**
-   * Load the cost ledger from disk, or initialize if it doesn't exist
+   * Load the cost ledger from the store
    */
   private load(): CostLedgerData {
-    if (existsSync(this.ledgerPath)) {
-      try {
-        const content = readFileSync(this.ledgerPath, "utf-8");
-        return JSON.parse(content) as CostLedgerData;
-      } catch (error) {
-        console.warn(
-          "Failed to load cost ledger, starting fresh:",
-          error instanceof Error ? error.message : error,
-        );
-      }
-    }
-
+    const entries = this.store.getCosts(this.ledgerName);
+    const { createdAt, updatedAt } = this.store.getLedgerInfo(this.ledgerName);
     return {
-      createdAt: new Date().toISOString(),
-      lastUpdatedAt: new Date().toISOString(),
-      entries: [],
-      summary: {},
+      createdAt,
+      lastUpdatedAt: updatedAt,
+      entries,
+      summary: this.rebuildSummary(entries),
     };
   }
 
-  /**
-   * Save the cost ledger to disk
-   */
-  private save(data: CostLedgerData): void {
-    writeFileSync(this.ledgerPath, JSON.stringify(data, null, 2), "utf-8");
-  }
-
   /**
    * Rebuild the summary statistics from entries
    */
@@ -91,6 +87,8 @@ export class OpenRouterCostLedger {
           totalPromptTokens: 0,
           totalCompletionTokens: 0,
           totalTokens: 0,
+          totalCacheReadTokens: 0,
+          totalCacheWriteTokens: 0,
           totalCostUSD: 0,
         };
       }
@@ -99,6 +97,9 @@ export class OpenRouterCostLedger {
       summary[entry.model]!.totalPromptTokens += entry.promptTokens;
       summary[entry.model]!.totalCompletionTokens += entry.completionTokens;
       summary[entry.model]!.totalTokens += entry.totalTokens;
+      summary[entry.model]!.totalCacheReadTokens += entry.cacheReadTokens ?? 0;
+      summary[entry.model]!.totalCacheWriteTokens +=
+        entry.cacheWriteTokens ?? 0;
       summary[entry.model]!.totalCostUSD += entry.costUSD;
     }
 
@@ -106,7 +107,9 @@ export class OpenRouterCostLedger {
   }
 
   /**
-   * Add a cost entry for a single OpenRouter request
+   * Add a cost entry for a single request. Cache token counts are part of
+   * promptTokens; they are recorded separately because they bill at a
+   * different rate.
    */
   logRequest(
     model: string,
@@ -114,23 +117,23 @@ export class OpenRouterCostLedger {
     completionTokens: number,
     totalTokens: number,
     costUSD: number,
+    cacheReadTokens?: number,
+    cacheWriteTokens?: number,
+    fallbackFor?: string,
   ): void {
-    const data = this.load();
-
     const entry: CostLedgerEntry = {
       timestamp: new Date().toISOString(),
       model,
       promptTokens,
       completionTokens,
       totalTokens,
+      ...(cacheReadTokens ? { cacheReadTokens } : {}),
+      ...(cacheWriteTokens ? { cacheWriteTokens } : {}),
       costUSD,
+      ...(fallbackFor ? { fallbackFor } : {}),
     };
 
-    data.entries.push(entry);
-    data.lastUpdatedAt = new Date().toISOString();
-    data.summary = this.rebuildSummary(data.entries);
-
-    this.save(data);
+    this.store.logCost(this.ledgerName, entry);
   }
 
   /**
@@ -151,8 +154,9 @@ export class OpenRouterCostLedger {
    * Get total cost across all requests
    */
   getTotalCost(): number {
-    const ledger = this.load();
-    return ledger.entries.reduce((sum, entry) => sum + entry.costUSD, 0);
+    return this.store
+      .getCosts(this.ledgerName)
+      .reduce((sum, entry) => sum + entry.costUSD, 0);
   }
 
   /**
@@ -161,7 +165,9 @@ export class OpenRouterCostLedger {
   printReport(): void {
     const data = this.load();
 
-    console.log("\n📊 OpenRouter Cost Ledger Report");
+    console.log(
+      `\n📊 Cost Ledger Report (${this.ledgerName}, ${path.basename(this.store.dbPath)})`,
+    );
     console.log("================================");
     console.log(`Created: ${data.createdAt}`);
     console.log(`Last Updated: ${data.lastUpdatedAt}`);
@@ -181,6 +187,14 @@ export class OpenRouterCostLedger {
       console.log(
         `    Tokens: ${modelSummary.totalTokens} (prompt: ${modelSummary.totalPromptTokens}, completion: ${modelSummary.totalCompletionTokens})`,
       );
+      // Older ledgers were written before cache tokens were tracked
+      const cacheRead = modelSummary.totalCacheReadTokens ?? 0;
+      const cacheWrite = modelSummary.totalCacheWriteTokens ?? 0;
+      if (cacheRead > 0 || cacheWrite > 0) {
+        console.log(
+          `    Cached prompt tokens: ${cacheRead} read, ${cacheWrite} written`,
+        );
+      }
       console.log(`    Cost: $${modelSummary.totalCostUSD.toFixed(6)}`);
     }
 
@@ -198,7 +212,10 @@ export class OpenRouterCostLedger {
       "Prompt Tokens",
       "Completion Tokens",
       "Total Tokens",
+      "Cache Read Tokens",
+      "Cache Write Tokens",
       "Cost USD",
+      "Fallback For",
     ];
     const rows = data.entries.map((entry) => [
       entry.timestamp,
@@ -206,7 +223,10 @@ export class OpenRouterCostLedger {
       entry.promptTokens.toString(),
       entry.completionTokens.toString(),
       entry.totalTokens.toString(),
+      (entry.cacheReadTokens ?? 0).toString(),
+      (entry.cacheWriteTokens ?? 0).toString(),
       entry.costUSD.toFixed(6),
+      entry.fallbackFor ?? "",
     ]);
 
     const csv = [headers.join(","), ...rows.map((row) => row.join(","))].join(
@@ -220,13 +240,7 @@ export class OpenRouterCostLedger {
    * Reset the ledger (for testing)
    */
   reset(): void {
-    const data: CostLedgerData = {
-      createdAt: new Date().toISOString(),
-      lastUpdatedAt: new Date().toISOString(),
-      entries: [],
-      summary: {},
-    };
-    this.save(data);
+    this.store.resetLedger(this.ledgerName);
     console.log("✅ Cost ledger reset.");
   }
 }
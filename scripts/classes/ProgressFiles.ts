@@ -0,0 +1,79 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import type { FailedEntry, ProcessedEntry } from "./ResultsStore.js";
+
+/**
+ * Contents of a feedbot_progress_*.json file, as written before results
+ * moved to the SQLite store
+ */
+export interface ProgressState {
+  processed: Record<string, ProcessedEntry>;
+  failed?: Record<string, FailedEntry>;
+}
+
+export interface ProgressFile {
+  model: string;
+  promptVariation: string;
+  filePath: string;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Model and prompt variation from a progress file name. Handles the encoded
+ * feedbot_progress_m-<model>_p-<prompt>.json naming and the older
+ * feedbot_progress_<model>_<prompt>.json one.
+ */
+export function parseProgressFileName(
+  filename: string,
+): { model: string; promptVariation: string } | null {
+  const encodedMatch = filename.match(/^feedbot_progress_m-(.+)_p-(.+)\.json$/);
+  if (encodedMatch?.[1] && encodedMatch[2]) {
+    return {
+      model: safeDecode(encodedMatch[1]),
+      promptVariation: safeDecode(encodedMatch[2]),
+    };
+  }
+
+  const legacyMatch = filename.match(/^feedbot_progress_(.+)_(.+)\.json$/);
+  if (legacyMatch?.[1] && legacyMatch[2]) {
+    return { model: legacyMatch[1], promptVariation: legacyMatch[2] };
+  }
+  return null;
+}
+
+/**
+ * Progress files under a directory, including dated subfolders
+ */
+export function discoverProgressFiles(dir: string): ProgressFile[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const results: ProgressFile[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const filePath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...discoverProgressFiles(filePath));
+      continue;
+    }
+    const parsed = parseProgressFileName(entry.name);
+    if (parsed) {
+      results.push({ ...parsed, filePath });
+    }
+  }
+  return results;
+}
+
+/**
+ * Read a progress file; an unreadable one throws
+ */
+export function readProgressState(statePath: string): ProgressState {
+  return JSON.parse(readFileSync(statePath, "utf-8"));
+}
@@ -1,10 +1,18 @@
 import { createHash } from "crypto";
+import type { AssignmentDefinition } from "../../constants/assignments.js";
+import { categorizeAssignmentError } from "../../src/assignmentCategories.js";
+import { AssignmentRegistry } from "./AssignmentRegistry.js";
 import {
-  BASE_PROMPT,
-  CHAIN_OF_THOUGHT_PROMPT,
-  CHECKLIST_STRATEGY_PROMPT,
-  DESIGN_RECIPE_FOCUSED_PROMPT,
-} from "../../constants/promptData.js";
+  hashContent,
+  PromptTemplateLibrary,
+  renderTemplate,
+  type PromptTemplate,
+  type TemplateVariables,
+} from "./PromptTemplates.js";
+import type { ChatMessage } from "./providers/providerTypes.js";
+import { SpecLoader, type LoadedSpec } from "./SpecLoader.js";
+import { SpecSlicer, type SpecSliceSummary } from "./SpecSlicer.js";
+import { DIAGNOSIS_CATEGORIES, type OutputMode } from "./StructuredHint.js";
 
 export interface EvaluationRow {
   name: string;
@@ -20,6 +28,27 @@ export interface EvaluationRow {
   fingerprint: string;
 }
 
+/**
+ * A prompt split into the shared system instructions and the per-row user turn
+ */
+export interface StructuredPrompt {
+  system: string;
+  user: string;
+  assignmentId: string;
+  specHash: string; // sha256 of the spec content, "none" if sent without one
+  strategyVersion: number;
+  strategyReconstructed: boolean;
+  promptHash: string; // sha256 of the rendered system and user text
+  specSlice?: SpecSliceSummary; // Set when the spec was sliced for this row
+}
+
+export function toChatMessages(prompt: StructuredPrompt): ChatMessage[] {
+  return [
+    { role: "system", content: prompt.system },
+    { role: "user", content: prompt.user },
+  ];
+}
+
 export interface RawEvaluationRow {
   [key: string]: unknown;
 }
@@ -94,7 +123,11 @@ export function normalizeEvaluationRow(
  * Generates prompts based on evaluation data and prompt variations
  */
 export class PromptGenerator {
-  private readonly assignmentUrl: string;
+  private readonly assignments: AssignmentRegistry;
+  private readonly templates: PromptTemplateLibrary;
+  private readonly specs: SpecLoader;
+  private readonly slicer: SpecSlicer | undefined;
+  readonly outputMode: OutputMode;
   private static readonly DEPENDENCY_NOT_GRADED_PATTERN =
     /This unit was not graded because the following dependencies were not satisfied/i;
   private static readonly SCORE_THRESHOLD_PATTERN =
@@ -105,57 +138,137 @@ export class PromptGenerator {
     /\d+\s+additional hints available but not shown\.[\s\S]*You are limited to 1 hint total/i;
 
   constructor(
-    assignmentUrl: string = "https://neu-pdi.github.io/cs3100-public-resources/assignments/cyb1-recipes",
+    assignments: AssignmentRegistry = new AssignmentRegistry(),
+    templates: PromptTemplateLibrary = new PromptTemplateLibrary(),
+    specs: SpecLoader = new SpecLoader(),
+    slicer?: SpecSlicer,
+    outputMode: OutputMode = "prose",
   ) {
-    this.assignmentUrl = assignmentUrl;
+    this.assignments = assignments;
+    this.templates = templates;
+    this.specs = specs;
+    this.slicer = slicer;
+    this.outputMode = outputMode;
   }
 
   /**
-   * Generate a prompt for a specific row and prompt variation
+   * Generate a prompt for a specific row and prompt variation. The system
+   * part (role, rules, strategy, spec) is identical for every row of an
+   * assignment and variation; the user part carries the row being diagnosed.
+   * With a slicer the spec, and so the system part, becomes row-specific,
+   * which gives up provider-side prompt caching. In JSON output mode the
+   * system part leaves out the prose output format and the JSON
+   * instructions go at the end of the user part.
    */
-  generate(row: EvaluationRow, promptVariation: string): string {
-    let basePrompt = BASE_PROMPT;
-
-    // Add variation-specific modifications
-    basePrompt += this.getPromptVariationContent(promptVariation);
-
-    // Add context-specific information
-    basePrompt += this.formatRowContext(row);
-
-    return basePrompt;
+  async generate(
+    row: EvaluationRow,
+    promptVariation: string,
+  ): Promise<StructuredPrompt> {
+    const strategy = this.getStrategy(promptVariation);
+    const assignment = this.assignments.resolve(row);
+    const spec = await this.loadSpec(row);
+    const slice =
+      this.slicer && spec.content
+        ? this.slicer.slice(spec.content, row)
+        : undefined;
+    const variables = this.buildVariables(
+      row,
+      assignment,
+      slice?.content ?? spec.content,
+    );
+    const system = renderTemplate(this.templates.get("system"), {
+      ...variables,
+      strategy: renderTemplate(strategy, variables),
+      prose_output: this.outputMode === "prose" ? "true" : "",
+      json_output: this.outputMode === "json" ? "true" : "",
+    });
+    let user = renderTemplate(this.templates.get("user"), variables);
+    if (this.outputMode === "json") {
+      user += `\n\n${renderTemplate(this.templates.get("json-output"), {
+        categories: DIAGNOSIS_CATEGORIES.join(", "),
+      })}`;
+    }
+    return {
+      system,
+      user,
+      assignmentId: assignment.id,
+      specHash: spec.hash,
+      strategyVersion: strategy.version,
+      strategyReconstructed: strategy.reconstructed,
+      promptHash: hashContent(`${system}\n${user}`),
+      ...(slice ? { specSlice: slice.summary } : {}),
+    };
   }
 
   /**
-   * Get the content for a specific prompt variation
+   * The prompt asking a judge model to pick the best of a row's candidate
+   * hints, keyed by the number each is shown with
    */
-  private getPromptVariationContent(promptVariation: string): string {
-    switch (promptVariation) {
-      case "checklist-strategy":
-        return CHECKLIST_STRATEGY_PROMPT;
+  generateJudgePrompt(row: EvaluationRow, hints: Map<number, string>): string {
+    const candidates = [...hints]
+      .map(
+        ([number, hint]) =>
+          `<candidate number="${number}">\n${hint}\n</candidate>`,
+      )
+      .join("\n");
+    return renderTemplate(this.templates.get("judge"), {
+      test_name: row.name,
+      log: row.output,
+      candidates,
+    });
+  }
 
-      case "chain-of-thought":
-        return CHAIN_OF_THOUGHT_PROMPT;
+  /**
+   * The full spec for a row's assignment, unsliced
+   */
+  loadSpec(row: EvaluationRow): Promise<LoadedSpec> {
+    return this.specs.load(this.assignments.resolve(row).specSource);
+  }
 
-      case "design-recipe-focused":
-        return DESIGN_RECIPE_FOCUSED_PROMPT;
+  /**
+   * Look up a prompt variation in prompts/strategies/
+   */
+  getStrategy(promptVariation: string): PromptTemplate {
+    return this.templates.getStrategy(promptVariation);
+  }
 
-      default:
-        return BASE_PROMPT;
-    }
+  /**
+   * Placeholder values for a row. Columns missing from the dataset become
+   * empty strings so their {{#if}} sections drop out.
+   */
+  private buildVariables(
+    row: EvaluationRow,
+    assignment: AssignmentDefinition,
+    spec: string,
+  ): TemplateVariables {
+    return {
+      spec,
+      assignment_url: assignment.pageUrl,
+      title: row.title,
+      test_name: row.name,
+      score:
+        row.score || row.max_score ? `${row.score}/${row.max_score}` : "",
+      log: row.output,
+      category_tip:
+        categorizeAssignmentError(row.output)?.studentFriendlyMessage ?? "",
+    };
   }
 
   /**
-   * Format row context information for the prompt
+   * Load the spec for every assignment the rows belong to, so a missing
+   * spec fails the run before any model is called
    */
-  private formatRowContext(row: EvaluationRow): string {
-    return `
-This is the assignment the student is working on: ${this.assignmentUrl}
-
-Assignment Title: ${row.title}
-Prompt: ${row.name}
-Score: ${row.score}/${row.max_score}
-LOG:
-${row.output}`;
+  async preloadSpecs(rows: EvaluationRow[]): Promise<LoadedSpec[]> {
+    const sources = new Set(
+      rows.map((row) => this.assignments.resolve(row).specSource),
+    );
+    const specs: LoadedSpec[] = [];
+    for (const source of sources) {
+      const spec = await this.specs.load(source);
+      console.log(`Spec ${source}: ${spec.origin} (${spec.hash.slice(0, 12)})`);
+      specs.push(spec);
+    }
+    return specs;
   }
 
   /**
@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const PROMPTS_DIR = path.join(__dirname, "../../prompts");
+const STRATEGIES_SUBDIR = "strategies";
+
+/**
+ * A prompt template loaded from a markdown file with front matter
+ */
+export interface PromptTemplate {
+  id: string;
+  description: string;
+  version: number;
+  // "reconstructed: true" in front matter: the original text was lost and
+  // this one was written from the strategy's name and the hints it produced,
+  // so its hints do not reproduce results from the original
+  reconstructed: boolean;
+  template: string;
+  hash: string; // sha256 of the template body, before rendering
+}
+
+/**
+ * Values for {{placeholders}}. An undefined value counts as unfilled;
+ * an empty string is filled but makes {{#if name}} sections drop out.
+ */
+export type TemplateVariables = Record<string, string | undefined>;
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const COMMENT_PATTERN = /<!--[\s\S]*?-->\r?\n?/g;
+const CONDITIONAL_PATTERN = /\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Split a template file into its front matter fields and body. Only flat
+ * "key: value" lines are supported, which is all the templates need.
+ * HTML comments are authoring notes and are removed from the body.
+ */
+export function parseTemplate(id: string, source: string): PromptTemplate {
+  const fields: Record<string, string> = {};
+  const match = FRONT_MATTER_PATTERN.exec(source);
+  if (match) {
+    for (const line of match[1]!.split(/\r?\n/)) {
+      const separator = line.indexOf(":");
+      if (separator === -1 || line.trim().startsWith("#")) {
+        continue;
+      }
+      fields[line.slice(0, separator).trim()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+
+  const body = source
+    .slice(match ? match[0].length : 0)
+    .replace(COMMENT_PATTERN, "")
+    .trim();
+  const version = Number(fields.version ?? 1);
+  if (!Number.isInteger(version)) {
+    throw new Error(
+      `Prompt template "${id}" has a non-integer version: ${fields.version}`,
+    );
+  }
+
+  return {
+    id: fields.id ?? id,
+    description: fields.description ?? "",
+    version,
+    reconstructed: fields.reconstructed === "true",
+    template: body,
+    hash: hashContent(body),
+  };
+}
+
+/**
+ * Fill {{name}} placeholders and {{#if name}}...{{/if}} sections. Values are
+ * inserted in a single pass, so braces inside them (e.g. in the spec) are
+ * left alone. Throws if any placeholder outside a dropped section is unfilled.
+ */
+export function renderTemplate(
+  template: PromptTemplate,
+  variables: TemplateVariables,
+): string {
+  const withSections = template.template.replace(
+    CONDITIONAL_PATTERN,
+    (_, name: string, section: string) => (variables[name] ? section : ""),
+  );
+
+  if (withSections.includes("{{#if") || withSections.includes("{{/if}}")) {
+    throw new Error(
+      `Prompt template "${template.id}" has an unbalanced {{#if}} section`,
+    );
+  }
+
+  const missing = new Set<string>();
+  const rendered = withSections.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        missing.add(name);
+        return placeholder;
+      }
+      return value;
+    },
+  );
+
+  if (missing.size > 0) {
+    throw new Error(
+      `Prompt template "${template.id}" has unfilled placeholders: ${[...missing].join(", ")}`,
+    );
+  }
+  return rendered;
+}
+
+/**
+ * Loads prompt templates from the prompts/ directory. Shared templates sit at
+ * the top level; each prompt variation is a file in prompts/strategies/
+ * named after the variation.
+ */
+export class PromptTemplateLibrary {
+  private readonly promptsDir: string;
+  private readonly cache = new Map<string, PromptTemplate>();
+
+  constructor(promptsDir: string = PROMPTS_DIR) {
+    this.promptsDir = promptsDir;
+  }
+
+  /**
+   * Load a shared template such as "system" or "user"
+   */
+  get(name: string): PromptTemplate {
+    return this.load(path.join(this.promptsDir, `${name}.md`), name);
+  }
+
+  /**
+   * Load the template for a prompt variation
+   */
+  getStrategy(name: string): PromptTemplate {
+    const filePath = path.join(
+      this.promptsDir,
+      STRATEGIES_SUBDIR,
+      `${name}.md`,
+    );
+    if (!existsSync(filePath)) {
+      throw new Error(
+        `Unknown prompt variation "${name}". Known variations: ${this.listStrategies().join(", ")}`,
+      );
+    }
+    return this.load(filePath, name);
+  }
+
+  /**
+   * Names of every prompt variation in prompts/strategies/
+   */
+  listStrategies(): string[] {
+    const dir = path.join(this.promptsDir, STRATEGIES_SUBDIR);
+    if (!existsSync(dir)) {
+      return [];
+    }
+    return readdirSync(dir)
+      .filter((file) => file.endsWith(".md"))
+      .map((file) => file.slice(0, -".md".length))
+      .sort();
+  }
+
+  private load(filePath: string, id: string): PromptTemplate {
+    const cached = this.cache.get(filePath);
+    if (cached) {
+      return cached;
+    }
+    if (!existsSync(filePath)) {
+      throw new Error(`Prompt template not found: ${filePath}`);
+    }
+    const template = parseTemplate(id, readFileSync(filePath, "utf-8"));
+    this.cache.set(filePath, template);
+    return template;
+  }
+}
@@ -0,0 +1,353 @@
+import {
+  parseRateLimitHeaders,
+  type HeaderSource,
+  type RateLimitInfo,
+} from "./providers/rateLimitHeaders.js";
+import type { ProviderResult } from "./providers/providerTypes.js";
+
+/**
+ * Pacing for one provider+model. Concurrency starts at maxConcurrency, is
+ * halved whenever the provider throttles and grows back by one after a run
+ * of successful requests.
+ */
+export interface RateLimitConfig {
+  maxConcurrency: number;
+  requestsPerMinute?: number; // Token bucket refill rate; unset: no limit
+  burst?: number; // Bucket size, defaults to maxConcurrency
+  maxRetries?: number; // Per request, for throttling and transient errors
+  baseBackoffMs?: number;
+  maxBackoffMs?: number; // Also caps pauses asked for by Retry-After and reset headers
+}
+
+export const DEFAULT_RATE_LIMIT: Required<
+  Pick<RateLimitConfig, "maxRetries" | "baseBackoffMs" | "maxBackoffMs">
+> = {
+  maxRetries: 5,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60_000,
+};
+
+/**
+ * One-line summary for run logs
+ */
+export function describeRateLimit(config: RateLimitConfig): string {
+  const rate =
+    config.requestsPerMinute !== undefined
+      ? `${config.requestsPerMinute} requests/min`
+      : "no request rate cap";
+  return `up to ${config.maxConcurrency} concurrent, ${rate}, adapting to provider rate limit headers`;
+}
+
+// Successful requests in a row before concurrency grows again
+const HEALTHY_STREAK = 10;
+
+/**
+ * How a failed request should be handled: throttled and transient errors are
+ * retried, anything else is not
+ */
+export interface ProviderFailure {
+  kind: "throttled" | "transient" | "fatal";
+  status?: number;
+  rateLimit?: RateLimitInfo;
+}
+
+const TRANSIENT_ERROR_NAMES =
+  /timeout|timedout|connection|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|fetch failed/i;
+
+/**
+ * Classify an error thrown by a provider SDK. OpenAI and Anthropic errors
+ * carry `status` and `headers`; OpenRouter ones `statusCode` and `headers`.
+ */
+export function classifyProviderError(error: unknown): ProviderFailure {
+  const details = (error ?? {}) as {
+    status?: unknown;
+    statusCode?: unknown;
+    headers?: HeaderSource;
+    name?: unknown;
+    code?: unknown;
+    message?: unknown;
+  };
+  const status =
+    typeof details.status === "number"
+      ? details.status
+      : typeof details.statusCode === "number"
+        ? details.statusCode
+        : undefined;
+  const rateLimit = parseRateLimitHeaders(details.headers);
+  const withInfo = {
+    ...(status !== undefined ? { status } : {}),
+    ...(rateLimit ? { rateLimit } : {}),
+  };
+
+  // 529 is Anthropic's "overloaded"
+  if (status === 429 || status === 529) {
+    return { kind: "throttled", ...withInfo };
+  }
+  if (status === 408 || (status !== undefined && status >= 500)) {
+    return { kind: "transient", ...withInfo };
+  }
+  if (status === undefined) {
+    const text = [details.name, details.code, details.message]
+      .filter((part) => typeof part === "string")
+      .join(" ");
+    if (!/abort/i.test(text) && TRANSIENT_ERROR_NAMES.test(text)) {
+      return { kind: "transient" };
+    }
+  }
+  return { kind: "fatal", ...withInfo };
+}
+
+/**
+ * Token-bucket limiter with adaptive concurrency for one provider+model.
+ * Honors Retry-After and x-ratelimit-* headers from both errors and
+ * successful responses.
+ */
+export class RateLimiter {
+  readonly name: string;
+  private config: RateLimitConfig;
+  private concurrency: number;
+  private inFlight = 0;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private successStreak = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(name: string, config: RateLimitConfig) {
+    this.name = name;
+    this.config = config;
+    this.concurrency = Math.max(1, config.maxConcurrency);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  get maxConcurrency(): number {
+    return Math.max(1, this.config.maxConcurrency);
+  }
+
+  /**
+   * Requests currently allowed in flight
+   */
+  get currentConcurrency(): number {
+    return this.concurrency;
+  }
+
+  private get capacity(): number {
+    return Math.max(1, this.config.burst ?? this.config.maxConcurrency);
+  }
+
+  private get maxBackoffMs(): number {
+    return this.config.maxBackoffMs ?? DEFAULT_RATE_LIMIT.maxBackoffMs;
+  }
+
+  /**
+   * Wait, stopping early with the abort reason if the signal fires
+   */
+  private async sleep(
+    ms: number,
+    signal: AbortSignal | undefined,
+  ): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Wait for a request in flight to finish. An aborted waiter leaves the
+   * queue.
+   */
+  private async waitForSlot(signal: AbortSignal | undefined): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(signal!.reason);
+      };
+      this.waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Send a request once a slot and a token are free, retrying throttled and
+   * transient failures. An aborted signal stops it between attempts and
+   * while it waits for a slot, a token or a backoff.
+   */
+  async run(
+    operation: () => Promise<ProviderResult>,
+    signal?: AbortSignal,
+  ): Promise<ProviderResult> {
+    const maxRetries = this.config.maxRetries ?? DEFAULT_RATE_LIMIT.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(signal);
+      let result: ProviderResult;
+      try {
+        signal?.throwIfAborted();
+        result = await operation();
+      } catch (error) {
+        this.release();
+        const failure = classifyProviderError(error);
+        if (failure.kind === "fatal" || attempt >= maxRetries) {
+          throw error;
+        }
+        const delayMs =
+          failure.kind === "throttled"
+            ? this.onThrottled(failure, attempt)
+            : this.backoff(attempt);
+        console.log(
+          `[${this.name}] ${failure.kind === "throttled" ? "Rate limited" : "Transient error"}${failure.status ? ` (HTTP ${failure.status})` : ""}; retry ${attempt + 1}/${maxRetries} in ${delayMs}ms (concurrency ${this.concurrency})`,
+        );
+        // Throttling pauses every request through pausedUntil
+        if (failure.kind === "transient") {
+          await this.sleep(delayMs, signal);
+        }
+        continue;
+      }
+      this.release();
+      this.onSuccess(result.rateLimit);
+      return result;
+    }
+  }
+
+  private refill(now: number): void {
+    const perMinute = this.config.requestsPerMinute;
+    if (perMinute === undefined) {
+      this.tokens = this.capacity;
+    } else {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + ((now - this.lastRefill) * perMinute) / 60_000,
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  /**
+   * Milliseconds until a request may start, or Infinity when it has to wait
+   * for one in flight to finish
+   */
+  private waitTime(): number {
+    const now = Date.now();
+    this.refill(now);
+    if (this.inFlight >= this.concurrency) {
+      return Infinity;
+    }
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.tokens < 1) {
+      return Math.ceil(
+        ((1 - this.tokens) * 60_000) / this.config.requestsPerMinute!,
+      );
+    }
+    return 0;
+  }
+
+  private async acquire(signal: AbortSignal | undefined): Promise<void> {
+    for (;;) {
+      const waitMs = this.waitTime();
+      if (waitMs === 0) {
+        this.tokens -= 1;
+        this.inFlight++;
+        return;
+      }
+      if (waitMs === Infinity) {
+        await this.waitForSlot(signal);
+      } else {
+        await this.sleep(waitMs, signal);
+      }
+    }
+  }
+
+  private release(): void {
+    this.inFlight--;
+    this.wakeWaiters();
+  }
+
+  private wakeWaiters(): void {
+    this.waiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  private onSuccess(info: RateLimitInfo | undefined): void {
+    if (info?.remainingRequests === 0 && info.resetMs !== undefined) {
+      this.pauseFor(Math.min(info.resetMs, this.maxBackoffMs));
+    }
+    this.successStreak++;
+    if (
+      this.successStreak >= HEALTHY_STREAK &&
+      this.concurrency < this.maxConcurrency
+    ) {
+      this.concurrency++;
+      this.successStreak = 0;
+      this.wakeWaiters();
+    }
+  }
+
+  /**
+   * Halve concurrency and pause for as long as the provider asked, up to
+   * maxBackoffMs, or a backoff when it did not say. Returns the pause.
+   */
+  private onThrottled(failure: ProviderFailure, attempt: number): number {
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    this.successStreak = 0;
+    const requestedMs =
+      failure.rateLimit?.retryAfterMs ?? failure.rateLimit?.resetMs;
+    const delayMs =
+      requestedMs !== undefined
+        ? Math.min(requestedMs, this.maxBackoffMs)
+        : this.backoff(attempt);
+    this.pauseFor(delayMs);
+    return delayMs;
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Exponential backoff with jitter, so workers that failed together do not
+   * retry together
+   */
+  private backoff(attempt: number): number {
+    const base = this.config.baseBackoffMs ?? DEFAULT_RATE_LIMIT.baseBackoffMs;
+    const ceiling = Math.min(this.maxBackoffMs, base * 2 ** attempt);
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+}
+
+/**
+ * One RateLimiter per provider+model, sharing a config
+ */
+export class RateLimiterPool {
+  private config: RateLimitConfig;
+  private limiters: Map<string, RateLimiter>;
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+    this.limiters = new Map();
+  }
+
+  get(provider: string, model: string): RateLimiter {
+    const key = `${provider}:${model}`;
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(key, this.config);
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+}
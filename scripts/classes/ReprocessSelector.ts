@@ -0,0 +1,76 @@
+import { HintValidator, RETRY_SENTINEL } from "./HintValidator.js";
+import type { ProcessedEntry } from "./ResultsStore.js";
+
+/**
+ * Which already-processed rows to generate again. A row matching any
+ * criterion is reprocessed.
+ */
+export interface ReprocessFilter {
+  failedValidation?: boolean;
+  before?: string; // ISO date; hints generated earlier are redone
+  promptHash?: string; // Full hash or a prefix of it
+  retry?: boolean; // Hints containing the RETRY sentinel
+  emptyHint?: boolean;
+  fingerprints?: string[];
+}
+
+/**
+ * Decides whether a stored hint should be regenerated
+ */
+export class ReprocessSelector {
+  private filter: ReprocessFilter;
+  private validator: HintValidator;
+  private fingerprints: Set<string>;
+  private before: number | undefined;
+
+  constructor(
+    filter: ReprocessFilter,
+    validator: HintValidator = new HintValidator(),
+  ) {
+    this.filter = filter;
+    this.validator = validator;
+    this.fingerprints = new Set(filter.fingerprints ?? []);
+    if (filter.before !== undefined) {
+      this.before = Date.parse(filter.before);
+      if (Number.isNaN(this.before)) {
+        throw new Error(`Invalid reprocess date: ${filter.before}`);
+      }
+    }
+  }
+
+  /**
+   * Why the hint should be regenerated, or null to keep it
+   */
+  reason(fingerprint: string, entry: ProcessedEntry): string | null {
+    if (this.fingerprints.has(fingerprint)) {
+      return "listed fingerprint";
+    }
+    if (this.filter.emptyHint && entry.hint.trim() === "") {
+      return "empty hint";
+    }
+    if (this.filter.retry && entry.hint.includes(RETRY_SENTINEL)) {
+      return `contains ${RETRY_SENTINEL}`;
+    }
+    if (
+      this.before !== undefined &&
+      Date.parse(entry.timestamp) < this.before
+    ) {
+      return `generated before ${this.filter.before}`;
+    }
+    if (
+      this.filter.promptHash &&
+      entry.promptHash?.startsWith(this.filter.promptHash)
+    ) {
+      return `prompt hash ${entry.promptHash.slice(0, 12)}`;
+    }
+    if (this.filter.failedValidation) {
+      // Older entries were stored before validation existed
+      const validation =
+        entry.validation ?? this.validator.validate(entry.hint);
+      if (!validation.compliant) {
+        return "failed validation";
+      }
+    }
+    return null;
+  }
+}
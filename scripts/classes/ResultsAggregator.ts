@@ -1,3 +1,5 @@
+import type { FallbackStats } from "./ResultsStore.js";
+
 /**
  * Statistics for a single model+prompt combination
  */
@@ -5,6 +7,25 @@ export interface CombinationStats {
   processed: number;
   skipped: number;
   failed: number;
+  fallbacks: number; // Processed rows a fallback model answered
+}
+
+/**
+ * One line per combination that needed a fallback, with the share of its
+ * hints each fallback answered
+ */
+export function formatFallbackFrequency(stats: FallbackStats[]): string[] {
+  return stats
+    .filter((stat) => Object.keys(stat.fallbacks).length > 0)
+    .map((stat) => {
+      const total = Object.values(stat.fallbacks).reduce((a, b) => a + b, 0);
+      const byModel = Object.entries(stat.fallbacks)
+        .sort(([, a], [, b]) => b - a)
+        .map(([target, count]) => `${target} ${count}`)
+        .join(", ");
+      const rate = ((total / stat.hints) * 100).toFixed(1);
+      return `  ${stat.model} + ${stat.promptVariation}: ${total}/${stat.hints} (${rate}%) — ${byModel}`;
+    });
 }
 
 /**
@@ -22,7 +43,7 @@ export class ResultsAggregator {
    */
   initializeCombination(model: string, promptVariation: string): void {
     const key = this.getKey(model, promptVariation);
-    this.stats.set(key, { processed: 0, skipped: 0, failed: 0 });
+    this.stats.set(key, { processed: 0, skipped: 0, failed: 0, fallbacks: 0 });
   }
 
   /**
@@ -46,12 +67,26 @@ export class ResultsAggregator {
     this.incrementStat(model, promptVariation, "failed");
   }
 
+  /**
+   * Count a processed row that a fallback model answered
+   */
+  incrementFallbacks(model: string, promptVariation: string): void {
+    this.incrementStat(model, promptVariation, "fallbacks");
+  }
+
   /**
    * Get stats for a specific combination
    */
   getStats(model: string, promptVariation: string): CombinationStats {
     const key = this.getKey(model, promptVariation);
-    return this.stats.get(key) || { processed: 0, skipped: 0, failed: 0 };
+    return (
+      this.stats.get(key) || {
+        processed: 0,
+        skipped: 0,
+        failed: 0,
+        fallbacks: 0,
+      }
+    );
   }
 
   /**
@@ -64,7 +99,7 @@ export class ResultsAggregator {
       for (const promptVariation of promptVariations) {
         const stat = this.getStats(model, promptVariation);
         lines.push(
-          `${model} + ${promptVariation}: ${stat.processed} processed, ${stat.skipped} skipped, ${stat.failed} failed`,
+          `${model} + ${promptVariation}: ${stat.processed} processed${stat.fallbacks > 0 ? ` (${stat.fallbacks} by a fallback)` : ""}, ${stat.skipped} skipped, ${stat.failed} failed`,
         );
       }
     }
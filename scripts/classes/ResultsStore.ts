@@ -0,0 +1,1011 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type {
+  LlmProvider,
+  ResolvedModelTarget,
+} from "../../constants/models.js";
+import type { CandidateSelection } from "./CandidateSelector.js";
+import type { CitationCheckResult } from "./CitationChecker.js";
+import type { HintValidationResult } from "./HintValidator.js";
+import type { LeakCheckResult } from "./LeakDetector.js";
+import type { CostLedgerEntry } from "./OpenRouterCostLedger.js";
+import type { EvaluationRow } from "./PromptGenerator.js";
+import type {
+  GenerationParams,
+  UsageMetadata,
+} from "./providers/providerTypes.js";
+import { sumTotals, type RunManifest } from "./RunManifest.js";
+import type { SpecSliceSummary } from "./SpecSlicer.js";
+import type { HintDiagnosis } from "./StructuredHint.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const RESULTS_DB_FILE = "feedbot.db";
+export const RESULTS_DB_PATH = path.join(
+  __dirname,
+  "../../feedbotOutput",
+  RESULTS_DB_FILE,
+);
+
+/**
+ * An accepted hint for one row under one model+prompt combination
+ */
+export interface ProcessedEntry {
+  hint: string;
+  timestamp: string;
+  usage?: UsageMetadata;
+  validation?: HintValidationResult;
+  leak?: LeakCheckResult;
+  citations?: CitationCheckResult;
+  attempts?: number;
+  assignmentId?: string;
+  specHash?: string;
+  specSlice?: SpecSliceSummary;
+  promptVersion?: number;
+  promptReconstructed?: boolean; // Generated with a reconstructed strategy
+  promptHash?: string;
+  generation?: GenerationParams; // As sent to the model that answered
+  runId?: string;
+  servedBy?: ResolvedModelTarget; // Set when a fallback answered for the combination's model
+  diagnosis?: HintDiagnosis; // From a JSON output mode response
+  selection?: CandidateSelection; // Every sample drawn, when there were several
+}
+
+/**
+ * A row whose repairs were exhausted; it is retried on the next run
+ */
+export interface FailedEntry {
+  reason: string;
+  timestamp: string;
+  attempts: number;
+  lastHint?: string;
+  validation?: HintValidationResult;
+  usage?: UsageMetadata;
+  runId?: string;
+  servedBy?: ResolvedModelTarget;
+}
+
+interface StoredResultBase {
+  id: number;
+  model: string;
+  promptVariation: string;
+  fingerprint: string;
+  source: string; // "feedbot", or the progress file it was imported from
+  supersededAt?: string; // set once a newer result replaced this one
+}
+
+export type ResultRecord =
+  | { status: "processed"; entry: ProcessedEntry }
+  | { status: "failed"; entry: FailedEntry };
+
+export type StoredResult = StoredResultBase & ResultRecord;
+
+export interface ResultFilter {
+  status?: StoredResult["status"];
+  runId?: string;
+  models?: string[];
+  includeHistory?: boolean; // also return superseded results
+}
+
+export interface Combination {
+  model: string;
+  promptVariation: string;
+}
+
+/**
+ * How many of a combination's hints each fallback answered
+ */
+export interface FallbackStats extends Combination {
+  hints: number;
+  fallbacks: Record<string, number>; // By "provider:model"
+}
+
+const SCHEMA_VERSION = 7;
+
+// Steps that bring an older database up to each version before SCHEMA runs
+const MIGRATIONS: Record<number, string> = {
+  2: `
+    ALTER TABLE hints ADD COLUMN superseded_at TEXT;
+    DROP INDEX IF EXISTS hints_combination_row;
+  `,
+  3: `
+    ALTER TABLE hints ADD COLUMN served_provider TEXT;
+    ALTER TABLE hints ADD COLUMN served_model TEXT;
+    ALTER TABLE costs ADD COLUMN fallback_for TEXT;
+  `,
+  4: `
+    ALTER TABLE hints ADD COLUMN diagnosis TEXT;
+  `,
+  5: `
+    ALTER TABLE hints ADD COLUMN generation TEXT;
+  `,
+  6: `
+    ALTER TABLE hints ADD COLUMN selection TEXT;
+  `,
+  7: `
+    ALTER TABLE hints ADD COLUMN prompt_reconstructed INTEGER;
+  `,
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rows (
+    fingerprint TEXT PRIMARY KEY,
+    dataset TEXT NOT NULL,
+    title TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS runs (
+    run_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    provider TEXT NOT NULL,
+    manifest TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS hints (
+    id INTEGER PRIMARY KEY,
+    fingerprint TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_variation TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('processed', 'failed')),
+    hint TEXT,
+    reason TEXT,
+    timestamp TEXT NOT NULL,
+    attempts INTEGER,
+    run_id TEXT,
+    assignment_id TEXT,
+    spec_hash TEXT,
+    prompt_version INTEGER,
+    prompt_reconstructed INTEGER,
+    prompt_hash TEXT,
+    spec_slice TEXT,
+    leak TEXT,
+    citations TEXT,
+    source TEXT NOT NULL,
+    superseded_at TEXT,
+    -- The fallback that answered, when the combination's model did not
+    served_provider TEXT,
+    served_model TEXT,
+    diagnosis TEXT, -- JSON HintDiagnosis, JSON output mode only
+    generation TEXT, -- JSON GenerationParams
+    selection TEXT -- JSON CandidateSelection, multi-sample runs only
+  );
+  -- One current result per row; superseded ones stay as history
+  CREATE UNIQUE INDEX IF NOT EXISTS hints_current
+    ON hints (model, prompt_variation, fingerprint)
+    WHERE superseded_at IS NULL;
+  CREATE INDEX IF NOT EXISTS hints_run ON hints (run_id);
+
+  CREATE TABLE IF NOT EXISTS usage (
+    hint_id INTEGER PRIMARY KEY REFERENCES hints (id) ON DELETE CASCADE,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    total_tokens INTEGER,
+    cache_read_tokens INTEGER,
+    cache_write_tokens INTEGER,
+    cost_usd REAL,
+    response_id TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS validations (
+    hint_id INTEGER PRIMARY KEY REFERENCES hints (id) ON DELETE CASCADE,
+    compliant INTEGER NOT NULL,
+    violations TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ratings (
+    id INTEGER PRIMARY KEY,
+    hint_id INTEGER NOT NULL REFERENCES hints (id) ON DELETE CASCADE,
+    rater TEXT NOT NULL,
+    rating INTEGER NOT NULL,
+    comment TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ledgers (
+    name TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS costs (
+    id INTEGER PRIMARY KEY,
+    ledger TEXT NOT NULL REFERENCES ledgers (name),
+    timestamp TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    total_tokens INTEGER NOT NULL,
+    cache_read_tokens INTEGER,
+    cache_write_tokens INTEGER,
+    cost_usd REAL NOT NULL,
+    fallback_for TEXT
+  );
+  CREATE INDEX IF NOT EXISTS costs_ledger ON costs (ledger, timestamp);
+`;
+
+interface HintRow {
+  id: number;
+  fingerprint: string;
+  model: string;
+  prompt_variation: string;
+  status: StoredResult["status"];
+  hint: string | null;
+  reason: string | null;
+  timestamp: string;
+  attempts: number | null;
+  run_id: string | null;
+  assignment_id: string | null;
+  spec_hash: string | null;
+  prompt_version: number | null;
+  prompt_reconstructed: number | null;
+  prompt_hash: string | null;
+  spec_slice: string | null;
+  leak: string | null;
+  citations: string | null;
+  source: string;
+  superseded_at: string | null;
+  served_provider: string | null;
+  served_model: string | null;
+  diagnosis: string | null;
+  generation: string | null;
+  selection: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  cache_read_tokens: number | null;
+  cache_write_tokens: number | null;
+  cost_usd: number | null;
+  response_id: string | null;
+  compliant: number | null;
+  violations: string | null;
+}
+
+interface CostRow {
+  timestamp: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cache_read_tokens: number | null;
+  cache_write_tokens: number | null;
+  cost_usd: number;
+  fallback_for: string | null;
+}
+
+// SQLite columns come back as null; entries leave absent fields out
+function optional<K extends string, V>(
+  key: K,
+  value: V | null,
+): { [P in K]?: V } {
+  return (value !== null ? { [key]: value } : {}) as { [P in K]?: V };
+}
+
+function parseJson<T>(value: string | null): T | null {
+  return value !== null ? (JSON.parse(value) as T) : null;
+}
+
+function toUsage(row: HintRow): UsageMetadata | null {
+  if (row.prompt_tokens === null && row.cost_usd === null) {
+    return null;
+  }
+  return {
+    ...optional("promptTokens", row.prompt_tokens),
+    ...optional("completionTokens", row.completion_tokens),
+    ...optional("totalTokens", row.total_tokens),
+    ...optional("cacheReadTokens", row.cache_read_tokens),
+    ...optional("cacheWriteTokens", row.cache_write_tokens),
+    ...optional("costUSD", row.cost_usd),
+    ...optional("responseId", row.response_id),
+  };
+}
+
+function toValidation(row: HintRow): HintValidationResult | null {
+  return row.compliant !== null
+    ? {
+        compliant: row.compliant === 1,
+        violations: JSON.parse(row.violations ?? "[]"),
+      }
+    : null;
+}
+
+function toStoredResult(row: HintRow): StoredResult {
+  const base: StoredResultBase = {
+    id: row.id,
+    model: row.model,
+    promptVariation: row.prompt_variation,
+    fingerprint: row.fingerprint,
+    source: row.source,
+    ...optional("supersededAt", row.superseded_at),
+  };
+  const shared = {
+    timestamp: row.timestamp,
+    ...optional("usage", toUsage(row)),
+    ...optional("validation", toValidation(row)),
+    ...optional("runId", row.run_id),
+    ...optional(
+      "servedBy",
+      row.served_provider !== null && row.served_model !== null
+        ? {
+            provider: row.served_provider as LlmProvider,
+            model: row.served_model,
+          }
+        : null,
+    ),
+  };
+
+  if (row.status === "failed") {
+    return {
+      ...base,
+      status: "failed",
+      entry: {
+        ...shared,
+        reason: row.reason ?? "",
+        attempts: row.attempts ?? 1,
+        ...optional("lastHint", row.hint),
+      },
+    };
+  }
+  return {
+    ...base,
+    status: "processed",
+    entry: {
+      ...shared,
+      hint: row.hint ?? "",
+      ...optional("attempts", row.attempts),
+      ...optional("assignmentId", row.assignment_id),
+      ...optional("specHash", row.spec_hash),
+      ...optional("specSlice", parseJson<SpecSliceSummary>(row.spec_slice)),
+      ...optional("promptVersion", row.prompt_version),
+      ...optional(
+        "promptReconstructed",
+        row.prompt_reconstructed !== null
+          ? row.prompt_reconstructed === 1
+          : null,
+      ),
+      ...optional("promptHash", row.prompt_hash),
+      ...optional("leak", parseJson<LeakCheckResult>(row.leak)),
+      ...optional("citations", parseJson<CitationCheckResult>(row.citations)),
+      ...optional("diagnosis", parseJson<HintDiagnosis>(row.diagnosis)),
+      ...optional("generation", parseJson<GenerationParams>(row.generation)),
+      ...optional("selection", parseJson<CandidateSelection>(row.selection)),
+    },
+  };
+}
+
+const SELECT_RESULTS = `
+  SELECT hints.*, usage.prompt_tokens, usage.completion_tokens,
+    usage.total_tokens, usage.cache_read_tokens, usage.cache_write_tokens,
+    usage.cost_usd, usage.response_id, validations.compliant,
+    validations.violations
+  FROM hints
+  LEFT JOIN usage ON usage.hint_id = hints.id
+  LEFT JOIN validations ON validations.hint_id = hints.id
+`;
+
+/**
+ * Embedded SQLite store for dataset rows, runs, hints, usage, validations,
+ * ratings and cost ledgers. Every write is its own transaction, so a crash
+ * never leaves a half-written result behind.
+ */
+export class ResultsStore {
+  readonly dbPath: string;
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string = RESULTS_DB_PATH) {
+    this.dbPath = dbPath;
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    // WAL lets reports read while a run is writing
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run several writes atomically
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  upsertRows(rows: EvaluationRow[], dataset: string): void {
+    const insert = this.db.prepare(
+      `INSERT INTO rows (fingerprint, dataset, title, name, data)
+       VALUES (@fingerprint, @dataset, @title, @name, @data)
+       ON CONFLICT (fingerprint) DO UPDATE SET
+         dataset = excluded.dataset, title = excluded.title,
+         name = excluded.name, data = excluded.data`,
+    );
+    this.transaction(() => {
+      for (const row of rows) {
+        insert.run({
+          fingerprint: row.fingerprint,
+          dataset,
+          title: row.title,
+          name: row.name,
+          data: JSON.stringify(row),
+        });
+      }
+    });
+  }
+
+  /**
+   * Dataset rows by fingerprint
+   */
+  getRows(): Map<string, EvaluationRow> {
+    const rows = this.db
+      .prepare<[], { data: string }>("SELECT data FROM rows")
+      .all();
+    return new Map(
+      rows.map(({ data }) => {
+        const row = JSON.parse(data) as EvaluationRow;
+        return [row.fingerprint, row];
+      }),
+    );
+  }
+
+  saveRun(manifest: RunManifest): void {
+    manifest.totals = sumTotals(manifest.sessions);
+    this.db
+      .prepare(
+        `INSERT INTO runs (run_id, status, started_at, ended_at, provider, manifest)
+         VALUES (@runId, @status, @startedAt, @endedAt, @provider, @manifest)
+         ON CONFLICT (run_id) DO UPDATE SET
+           status = excluded.status, ended_at = excluded.ended_at,
+           manifest = excluded.manifest`,
+      )
+      .run({
+        runId: manifest.runId,
+        status: manifest.status,
+        startedAt: manifest.startedAt,
+        endedAt: manifest.endedAt ?? null,
+        provider: manifest.provider,
+        manifest: JSON.stringify(manifest),
+      });
+  }
+
+  getRun(runId: string): RunManifest | null {
+    const row = this.db
+      .prepare<[string], { manifest: string }>(
+        "SELECT manifest FROM runs WHERE run_id = ?",
+      )
+      .get(runId);
+    return row ? JSON.parse(row.manifest) : null;
+  }
+
+  /**
+   * All runs, oldest first
+   */
+  listRuns(): RunManifest[] {
+    return this.db
+      .prepare<[], { manifest: string }>(
+        "SELECT manifest FROM runs ORDER BY started_at, run_id",
+      )
+      .all()
+      .map(({ manifest }) => JSON.parse(manifest));
+  }
+
+  /**
+   * Load a run, or throw listing the known run ids
+   */
+  requireRun(runId: string): RunManifest {
+    const manifest = this.getRun(runId);
+    if (!manifest) {
+      const known = this.listRuns().map((m) => m.runId);
+      throw new Error(
+        `Unknown run "${runId}". Known runs: ${known.length > 0 ? known.join(", ") : "(none)"}`,
+      );
+    }
+    return manifest;
+  }
+
+  /**
+   * The current result for a row, if any
+   */
+  getResult(
+    combination: Combination,
+    fingerprint: string,
+  ): StoredResult | undefined {
+    const row = this.db
+      .prepare<[string, string, string], HintRow>(
+        `${SELECT_RESULTS} WHERE hints.model = ? AND hints.prompt_variation = ?
+         AND hints.fingerprint = ? AND hints.superseded_at IS NULL`,
+      )
+      .get(combination.model, combination.promptVariation, fingerprint);
+    return row ? toStoredResult(row) : undefined;
+  }
+
+  /**
+   * Every stored result for a row, oldest first, including superseded ones
+   */
+  getHistory(combination: Combination, fingerprint: string): StoredResult[] {
+    return this.db
+      .prepare<[string, string, string], HintRow>(
+        `${SELECT_RESULTS} WHERE hints.model = ? AND hints.prompt_variation = ?
+         AND hints.fingerprint = ? ORDER BY hints.timestamp, hints.id`,
+      )
+      .all(combination.model, combination.promptVariation, fingerprint)
+      .map(toStoredResult);
+  }
+
+  /**
+   * Make a fresh result current. A replaced result is kept as history; a
+   * failure never replaces a processed hint and goes into its history
+   * instead.
+   */
+  recordProcessed(
+    combination: Combination,
+    fingerprint: string,
+    entry: ProcessedEntry,
+    source: string = "feedbot",
+  ): boolean {
+    return this.writeResult(
+      combination,
+      fingerprint,
+      { status: "processed", entry },
+      source,
+      "record",
+    );
+  }
+
+  recordFailed(
+    combination: Combination,
+    fingerprint: string,
+    entry: FailedEntry,
+    source: string = "feedbot",
+  ): boolean {
+    return this.writeResult(
+      combination,
+      fingerprint,
+      { status: "failed", entry },
+      source,
+      "record",
+    );
+  }
+
+  /**
+   * Record a result from an older progress file. It only becomes current
+   * when it is newer than the stored one; older hints are kept as history.
+   * Results imported before are skipped.
+   */
+  importResult(
+    combination: Combination,
+    fingerprint: string,
+    result: ResultRecord,
+    source: string,
+  ): boolean {
+    return this.writeResult(combination, fingerprint, result, source, "import");
+  }
+
+  /**
+   * Model+prompt combinations that have results, optionally for one run
+   */
+  listCombinations(filter: ResultFilter = {}): Combination[] {
+    const { where, params } = this.buildWhere(filter);
+    return this.db
+      .prepare<unknown[], { model: string; prompt_variation: string }>(
+        `SELECT DISTINCT model, prompt_variation FROM hints ${where}
+         ORDER BY model, prompt_variation`,
+      )
+      .all(...params)
+      .map((row) => ({
+        model: row.model,
+        promptVariation: row.prompt_variation,
+      }));
+  }
+
+  getResults(filter: ResultFilter = {}): StoredResult[] {
+    const { where, params } = this.buildWhere(filter);
+    return this.db
+      .prepare<unknown[], HintRow>(
+        `${SELECT_RESULTS} ${where}
+         ORDER BY hints.model, hints.prompt_variation, hints.timestamp`,
+      )
+      .all(...params)
+      .map(toStoredResult);
+  }
+
+  /**
+   * Hints per combination and how many of them came from each fallback
+   */
+  getFallbackStats(filter: ResultFilter = {}): FallbackStats[] {
+    const { where, params } = this.buildWhere(filter);
+    const stats = new Map<string, FallbackStats>();
+    const rows = this.db
+      .prepare<
+        unknown[],
+        {
+          model: string;
+          prompt_variation: string;
+          served_provider: string | null;
+          served_model: string | null;
+          hints: number;
+        }
+      >(
+        `SELECT model, prompt_variation, served_provider, served_model,
+           COUNT(*) AS hints
+         FROM hints ${where}
+         GROUP BY model, prompt_variation, served_provider, served_model
+         ORDER BY model, prompt_variation`,
+      )
+      .all(...params);
+    for (const row of rows) {
+      const key = `${row.model}\u0000${row.prompt_variation}`;
+      const combination = stats.get(key) ?? {
+        model: row.model,
+        promptVariation: row.prompt_variation,
+        hints: 0,
+        fallbacks: {},
+      };
+      combination.hints += row.hints;
+      if (row.served_model !== null) {
+        combination.fallbacks[`${row.served_provider}:${row.served_model}`] =
+          row.hints;
+      }
+      stats.set(key, combination);
+    }
+    return [...stats.values()];
+  }
+
+  /**
+   * Mean completion tokens per attempt across a model's hints, or undefined
+   * before it has any
+   */
+  getAverageCompletionTokens(model: string): number | undefined {
+    const row = this.db
+      .prepare<[string], { average: number | null }>(
+        `SELECT AVG(usage.completion_tokens * 1.0 / COALESCE(hints.attempts, 1))
+           AS average
+         FROM hints JOIN usage ON usage.hint_id = hints.id
+         WHERE hints.model = ? AND hints.status = 'processed'
+           AND usage.completion_tokens IS NOT NULL`,
+      )
+      .get(model);
+    return row?.average != null ? Math.round(row.average) : undefined;
+  }
+
+  addRating(
+    hintId: number,
+    rater: string,
+    rating: number,
+    comment?: string,
+  ): void {
+    this.db
+      .prepare(
+        `INSERT INTO ratings (hint_id, rater, rating, comment, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(hintId, rater, rating, comment ?? null, new Date().toISOString());
+  }
+
+  /**
+   * When a ledger was created and last written; creates it if needed
+   */
+  getLedgerInfo(ledger: string): { createdAt: string; updatedAt: string } {
+    this.ensureLedger(ledger, new Date().toISOString());
+    const row = this.db
+      .prepare<[string], { created_at: string; updated_at: string }>(
+        "SELECT created_at, updated_at FROM ledgers WHERE name = ?",
+      )
+      .get(ledger)!;
+    return { createdAt: row.created_at, updatedAt: row.updated_at };
+  }
+
+  logCost(ledger: string, entry: CostLedgerEntry): void {
+    this.transaction(() => {
+      this.ensureLedger(ledger, entry.timestamp);
+      this.insertCost(ledger, entry);
+      this.touchLedger(ledger, entry.timestamp);
+    });
+  }
+
+  /**
+   * Add a cost entry from an older JSON ledger unless an identical one exists
+   */
+  importCost(ledger: string, entry: CostLedgerEntry): boolean {
+    return this.transaction(() => {
+      this.ensureLedger(ledger, entry.timestamp);
+      const existing = this.db
+        .prepare(
+          `SELECT id FROM costs WHERE ledger = ? AND timestamp = ? AND model = ?
+           AND total_tokens = ? AND cost_usd = ?`,
+        )
+        .get(
+          ledger,
+          entry.timestamp,
+          entry.model,
+          entry.totalTokens,
+          entry.costUSD,
+        );
+      if (existing) {
+        return false;
+      }
+      this.insertCost(ledger, entry);
+      this.db
+        .prepare(
+          `UPDATE ledgers SET created_at = min(created_at, @timestamp),
+           updated_at = max(updated_at, @timestamp) WHERE name = @ledger`,
+        )
+        .run({ ledger, timestamp: entry.timestamp });
+      return true;
+    });
+  }
+
+  getCosts(ledger: string): CostLedgerEntry[] {
+    return this.db
+      .prepare<[string], CostRow>(
+        `SELECT timestamp, model, prompt_tokens, completion_tokens,
+           total_tokens, cache_read_tokens, cache_write_tokens, cost_usd,
+           fallback_for
+         FROM costs WHERE ledger = ? ORDER BY timestamp, id`,
+      )
+      .all(ledger)
+      .map((row) => ({
+        timestamp: row.timestamp,
+        model: row.model,
+        promptTokens: row.prompt_tokens,
+        completionTokens: row.completion_tokens,
+        totalTokens: row.total_tokens,
+        ...optional("cacheReadTokens", row.cache_read_tokens),
+        ...optional("cacheWriteTokens", row.cache_write_tokens),
+        costUSD: row.cost_usd,
+        ...optional("fallbackFor", row.fallback_for),
+      }));
+  }
+
+  resetLedger(ledger: string): void {
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM costs WHERE ledger = ?").run(ledger);
+      this.db
+        .prepare(
+          `INSERT INTO ledgers (name, created_at, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT (name) DO UPDATE SET
+             created_at = excluded.created_at, updated_at = excluded.updated_at`,
+        )
+        .run(ledger, now, now);
+    });
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `${this.dbPath} has schema version ${version}, newer than this code supports (${SCHEMA_VERSION})`,
+      );
+    }
+    this.transaction(() => {
+      // A fresh database (version 0) gets the current SCHEMA directly
+      if (version > 0) {
+        for (let next = version + 1; next <= SCHEMA_VERSION; next++) {
+          const migration = MIGRATIONS[next];
+          if (migration) {
+            this.db.exec(migration);
+          }
+        }
+      }
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    });
+  }
+
+  private buildWhere(filter: ResultFilter): {
+    where: string;
+    params: unknown[];
+  } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (!filter.includeHistory) {
+      clauses.push("hints.superseded_at IS NULL");
+    }
+    if (filter.status) {
+      clauses.push("hints.status = ?");
+      params.push(filter.status);
+    }
+    if (filter.runId) {
+      clauses.push("hints.run_id = ?");
+      params.push(filter.runId);
+    }
+    if (filter.models) {
+      clauses.push(
+        `hints.model IN (${filter.models.map(() => "?").join(", ") || "NULL"})`,
+      );
+      params.push(...filter.models);
+    }
+    return {
+      where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+      params,
+    };
+  }
+
+  private writeResult(
+    combination: Combination,
+    fingerprint: string,
+    result: ResultRecord,
+    source: string,
+    mode: "record" | "import",
+  ): boolean {
+    const { entry } = result;
+    const processed = result.status === "processed" ? result.entry : undefined;
+    const failed = result.status === "failed" ? result.entry : undefined;
+
+    return this.transaction(() => {
+      if (mode === "import") {
+        const duplicate = this.db
+          .prepare<[string, string, string, string, string], { id: number }>(
+            `SELECT id FROM hints WHERE model = ? AND prompt_variation = ?
+             AND fingerprint = ? AND status = ? AND timestamp = ?`,
+          )
+          .get(
+            combination.model,
+            combination.promptVariation,
+            fingerprint,
+            result.status,
+            entry.timestamp,
+          );
+        if (duplicate) {
+          return false;
+        }
+      }
+
+      const current = this.getResult(combination, fingerprint);
+      const replaces =
+        current === undefined ||
+        (!(current.status === "processed" && result.status === "failed") &&
+          (mode === "record" || entry.timestamp > current.entry.timestamp));
+
+      let supersededAt: string | null = null;
+      if (current && replaces) {
+        // Replaced results stay as history, failures included, so the
+        // usage of every attempt is kept
+        this.db
+          .prepare("UPDATE hints SET superseded_at = ? WHERE id = ?")
+          .run(entry.timestamp, current.id);
+      } else if (current) {
+        // A failure never replaces a processed hint. A fresh one is still
+        // kept behind it, as the usage of the attempt counts towards budgets.
+        if (failed && mode === "import") {
+          return false;
+        }
+        supersededAt = failed ? failed.timestamp : current.entry.timestamp;
+      }
+
+      const written = this.db
+        .prepare<unknown[], { id: number }>(
+          `INSERT INTO hints (fingerprint, model, prompt_variation, status,
+             hint, reason, timestamp, attempts, run_id, assignment_id,
+             spec_hash, prompt_version, prompt_reconstructed, prompt_hash,
+             spec_slice, leak, citations, source, superseded_at,
+             served_provider, served_model, diagnosis, generation, selection)
+           VALUES (@fingerprint, @model, @promptVariation, @status, @hint,
+             @reason, @timestamp, @attempts, @runId, @assignmentId, @specHash,
+             @promptVersion, @promptReconstructed, @promptHash, @specSlice,
+             @leak, @citations, @source, @supersededAt, @servedProvider,
+             @servedModel, @diagnosis, @generation, @selection)
+           RETURNING id`,
+        )
+        .get({
+          fingerprint,
+          model: combination.model,
+          promptVariation: combination.promptVariation,
+          status: result.status,
+          hint: processed?.hint ?? failed?.lastHint ?? null,
+          reason: failed?.reason ?? null,
+          timestamp: entry.timestamp,
+          attempts: entry.attempts ?? null,
+          runId: entry.runId ?? null,
+          assignmentId: processed?.assignmentId ?? null,
+          specHash: processed?.specHash ?? null,
+          promptVersion: processed?.promptVersion ?? null,
+          promptReconstructed:
+            processed?.promptReconstructed !== undefined
+              ? Number(processed.promptReconstructed)
+              : null,
+          promptHash: processed?.promptHash ?? null,
+          specSlice: processed?.specSlice
+            ? JSON.stringify(processed.specSlice)
+            : null,
+          leak: processed?.leak ? JSON.stringify(processed.leak) : null,
+          citations: processed?.citations
+            ? JSON.stringify(processed.citations)
+            : null,
+          source,
+          supersededAt,
+          servedProvider: entry.servedBy?.provider ?? null,
+          servedModel: entry.servedBy?.model ?? null,
+          diagnosis: processed?.diagnosis
+            ? JSON.stringify(processed.diagnosis)
+            : null,
+          generation: processed?.generation
+            ? JSON.stringify(processed.generation)
+            : null,
+          selection: processed?.selection
+            ? JSON.stringify(processed.selection)
+            : null,
+        });
+      if (!written) {
+        return false;
+      }
+
+      if (entry.usage) {
+        this.db
+          .prepare(
+            `INSERT INTO usage (hint_id, prompt_tokens, completion_tokens,
+               total_tokens, cache_read_tokens, cache_write_tokens, cost_usd,
+               response_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            written.id,
+            entry.usage.promptTokens ?? null,
+            entry.usage.completionTokens ?? null,
+            entry.usage.totalTokens ?? null,
+            entry.usage.cacheReadTokens ?? null,
+            entry.usage.cacheWriteTokens ?? null,
+            entry.usage.costUSD ?? null,
+            entry.usage.responseId ?? null,
+          );
+      }
+
+      if (entry.validation) {
+        this.db
+          .prepare(
+            "INSERT INTO validations (hint_id, compliant, violations) VALUES (?, ?, ?)",
+          )
+          .run(
+            written.id,
+            entry.validation.compliant ? 1 : 0,
+            JSON.stringify(entry.validation.violations),
+          );
+      }
+      return true;
+    });
+  }
+
+  private insertCost(ledger: string, entry: CostLedgerEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO costs (ledger, timestamp, model, prompt_tokens,
+           completion_tokens, total_tokens, cache_read_tokens,
+           cache_write_tokens, cost_usd, fallback_for)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        ledger,
+        entry.timestamp,
+        entry.model,
+        entry.promptTokens,
+        entry.completionTokens,
+        entry.totalTokens,
+        entry.cacheReadTokens ?? null,
+        entry.cacheWriteTokens ?? null,
+        entry.costUSD,
+        entry.fallbackFor ?? null,
+      );
+  }
+
+  private ensureLedger(ledger: string, createdAt: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO ledgers (name, created_at, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT (name) DO NOTHING`,
+      )
+      .run(ledger, createdAt, createdAt);
+  }
+
+  private touchLedger(ledger: string, timestamp: string): void {
+    this.db
+      .prepare("UPDATE ledgers SET updated_at = ? WHERE name = ?")
+      .run(timestamp, ledger);
+  }
+}
@@ -0,0 +1,170 @@
+import { execSync } from "child_process";
+import { randomBytes } from "crypto";
+import type { LlmProvider, ModelTarget } from "../../constants/models.js";
+import type { BudgetLimits } from "./BudgetGuard.js";
+import type { SamplingConfig } from "./CandidateSelector.js";
+import type { RepairConfig, RequestSettings } from "./ModelManager.js";
+import type { GenerationParams } from "./providers/providerTypes.js";
+import type { RateLimitConfig } from "./RateLimiter.js";
+import type { ReprocessFilter } from "./ReprocessSelector.js";
+import type { CombinationStats } from "./ResultsAggregator.js";
+import type { LoadedSpec, SpecLoaderOptions } from "./SpecLoader.js";
+import type { SpecSliceOptions } from "./SpecSlicer.js";
+import type { OutputMode } from "./StructuredHint.js";
+
+export interface TemplateRef {
+  version: number;
+  hash: string;
+  reconstructed?: true; // Strategy text rewritten after the original was lost
+}
+
+export interface CombinationTotals extends CombinationStats {
+  model: string;
+  promptVariation: string;
+}
+
+/**
+ * One invocation of FeedBotProcessor.run. A resumed run has several.
+ */
+export interface RunSession {
+  startedAt: string;
+  endedAt?: string;
+  totals: CombinationTotals[];
+}
+
+/**
+ * Everything needed to tell which inputs and code produced a run's hints.
+ * Stored results carry the runId that links them back here.
+ */
+export interface RunManifest {
+  runId: string;
+  // halted: budget cap; cancelled: interrupted with Ctrl-C
+  status: "running" | "completed" | "failed" | "halted" | "cancelled";
+  startedAt: string;
+  endedAt?: string;
+  codeVersion: { commit: string; dirty: boolean };
+  dataset: { path: string; sha256: string; rows: number };
+  provider: LlmProvider;
+  models: string[];
+  promptVariations: string[];
+  // Runs from before generation profiles; null: model default
+  temperatures?: Record<string, number | null>;
+  // By model, fallbacks included, then prompt variation
+  generation?: Record<string, Record<string, GenerationParams>>;
+  limit?: number;
+  outputMode?: OutputMode; // Missing in runs from before JSON output mode
+  rateLimit: RateLimitConfig;
+  request?: RequestSettings;
+  fallbacks?: Record<string, ModelTarget[]>;
+  repair?: RepairConfig;
+  sampling?: SamplingConfig;
+  reprocess?: ReprocessFilter;
+  budget?: BudgetLimits;
+  budgetStops?: string[]; // Caps that halted the run
+  spec?: SpecLoaderOptions;
+  specSlicing?: SpecSliceOptions;
+  templates: {
+    system: TemplateRef;
+    user: TemplateRef;
+    jsonOutput?: TemplateRef; // JSON output mode only
+    judge?: TemplateRef; // --scorer judge only
+    strategies: Record<string, TemplateRef>;
+  };
+  specs: Record<string, Pick<LoadedSpec, "hash" | "origin">>;
+  sessions: RunSession[];
+  totals: CombinationTotals[]; // Summed over sessions
+}
+
+/**
+ * Sortable run id, e.g. 20261019T182500Z-3fa2c1
+ */
+export function createRunId(date: Date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+  return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Current git commit and whether the working tree has uncommitted changes
+ */
+export function getCodeVersion(): RunManifest["codeVersion"] {
+  try {
+    const options = { encoding: "utf-8", stdio: "pipe" } as const;
+    const commit = execSync("git rev-parse HEAD", options).trim();
+    const dirty = execSync("git status --porcelain", options).trim() !== "";
+    return { commit, dirty };
+  } catch {
+    return { commit: "unknown", dirty: false };
+  }
+}
+
+/**
+ * Add up per-combination totals across sessions
+ */
+export function sumTotals(sessions: RunSession[]): CombinationTotals[] {
+  const byKey = new Map<string, CombinationTotals>();
+  for (const total of sessions.flatMap((session) => session.totals)) {
+    const key = `${total.model}\u0000${total.promptVariation}`;
+    const sum = byKey.get(key) ?? {
+      model: total.model,
+      promptVariation: total.promptVariation,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      fallbacks: 0,
+    };
+    sum.processed += total.processed;
+    sum.skipped += total.skipped;
+    sum.failed += total.failed;
+    // Sessions recorded before fallbacks existed have no count
+    sum.fallbacks += total.fallbacks ?? 0;
+    byKey.set(key, sum);
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Short multi-line description for report headers
+ */
+export function formatRunSummary(manifest: RunManifest): string {
+  const lines = [
+    `Run ${manifest.runId} (${manifest.status}), started ${manifest.startedAt}${manifest.endedAt ? `, ended ${manifest.endedAt}` : ""}`,
+    `  Code: ${manifest.codeVersion.commit.slice(0, 12)}${manifest.codeVersion.dirty ? " (dirty)" : ""}`,
+    `  Dataset: ${manifest.dataset.path} (${manifest.dataset.rows} rows, sha256 ${manifest.dataset.sha256.slice(0, 12)})`,
+    `  Provider: ${manifest.provider}, models: ${manifest.models.join(", ")}`,
+    `  Prompt variations: ${manifest.promptVariations.join(", ")}`,
+  ];
+  const reconstructed = Object.entries(manifest.templates.strategies)
+    .filter(([, ref]) => ref.reconstructed)
+    .map(([variation]) => variation);
+  if (reconstructed.length > 0) {
+    lines.push(`  Reconstructed strategies: ${reconstructed.join(", ")}`);
+  }
+  for (const [model, fallbacks] of Object.entries(manifest.fallbacks ?? {})) {
+    lines.push(
+      `  Fallbacks for ${model}: ${fallbacks.map((target) => `${target.provider ?? manifest.provider}:${target.model}`).join(" → ")}`,
+    );
+  }
+  if (manifest.sampling) {
+    lines.push(
+      `  Sampling: ${manifest.sampling.samples} per row, ${manifest.sampling.scorer}`,
+    );
+  }
+  if (manifest.outputMode === "json") {
+    lines.push("  Output: JSON with diagnosis metadata");
+  }
+  if (manifest.budgetStops) {
+    lines.push(`  Stopped by budget: ${manifest.budgetStops.join("; ")}`);
+  }
+  if (manifest.reprocess) {
+    lines.push(`  Reprocess filter: ${JSON.stringify(manifest.reprocess)}`);
+  }
+  for (const total of manifest.totals) {
+    lines.push(
+      `  ${total.model} + ${total.promptVariation}: ${total.processed} processed${total.fallbacks ? ` (${total.fallbacks} by a fallback)` : ""}, ${total.skipped} skipped, ${total.failed} failed`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,208 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  fetchAssignmentSpec,
+  type SpecValidators,
+} from "../fetch-assignment-spec.js";
+import { writeFileAtomic } from "./AtomicFile.js";
+import { hashContent } from "./PromptTemplates.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const SPEC_CACHE_DIR = path.join(__dirname, "../../.spec-cache");
+
+export interface SpecLoaderOptions {
+  cacheDir?: string;
+  offline?: boolean; // Never touch the network; use local files and the cache
+  allowMissing?: boolean; // Prompt without a spec instead of failing
+}
+
+/**
+ * A loaded spec. `origin` says where the content came from this run.
+ */
+export interface LoadedSpec {
+  source: string;
+  content: string;
+  hash: string; // sha256 of content; "none" when the spec is missing
+  origin: "file" | "network" | "cache" | "none";
+}
+
+/**
+ * Thrown when no spec can be loaded and missing specs are not allowed
+ */
+export class SpecUnavailableError extends Error {
+  readonly source: string;
+  readonly reason: string;
+
+  constructor(source: string, reason: string) {
+    super(
+      `No spec available for ${source}: ${reason}. Run online once to populate the cache, point the assignment at a local file, or pass --allow-missing-spec.`,
+    );
+    this.name = "SpecUnavailableError";
+    this.source = source;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Index entry for a remote source. Content is stored once per hash under
+ * objects/, so identical specs from different URLs share a file.
+ */
+interface CacheEntry extends SpecValidators {
+  hash: string;
+  fetchedAt: string;
+}
+
+type CacheIndex = Record<string, CacheEntry>;
+
+/**
+ * Loads assignment specs from local paths or URLs, keeping a content-addressed
+ * on-disk cache of remote specs that is revalidated with ETag/Last-Modified
+ */
+export class SpecLoader {
+  private readonly cacheDir: string;
+  private readonly offline: boolean;
+  private readonly allowMissing: boolean;
+  // One load per source, shared by every row and variation
+  private readonly loaded = new Map<string, Promise<LoadedSpec>>();
+
+  constructor(options: SpecLoaderOptions = {}) {
+    this.cacheDir = options.cacheDir ?? SPEC_CACHE_DIR;
+    this.offline = options.offline ?? false;
+    this.allowMissing = options.allowMissing ?? false;
+  }
+
+  /**
+   * Load a spec from an http(s) URL or a file path (relative to the cwd)
+   */
+  load(source: string): Promise<LoadedSpec> {
+    let spec = this.loaded.get(source);
+    if (!spec) {
+      spec = this.loadUncached(source);
+      this.loaded.set(source, spec);
+    }
+    return spec;
+  }
+
+  private async loadUncached(source: string): Promise<LoadedSpec> {
+    try {
+      return /^https?:\/\//i.test(source)
+        ? await this.loadRemote(source)
+        : this.loadFile(source);
+    } catch (error) {
+      if (this.allowMissing && error instanceof SpecUnavailableError) {
+        console.warn(
+          `No spec for ${source} (${error.reason}); continuing without one.`,
+        );
+        return { source, content: "", hash: "none", origin: "none" };
+      }
+      throw error;
+    }
+  }
+
+  private loadFile(source: string): LoadedSpec {
+    const filePath = path.resolve(source);
+    if (!existsSync(filePath)) {
+      throw new SpecUnavailableError(source, `file not found: ${filePath}`);
+    }
+    const content = readFileSync(filePath, "utf-8");
+    return { source, content, hash: hashContent(content), origin: "file" };
+  }
+
+  private async loadRemote(source: string): Promise<LoadedSpec> {
+    const index = this.readIndex();
+    const entry = index[source];
+    const cached = entry ? this.readObject(entry.hash) : undefined;
+
+    if (this.offline) {
+      if (!entry || cached === undefined) {
+        throw new SpecUnavailableError(source, "offline and not cached");
+      }
+      return { source, content: cached, hash: entry.hash, origin: "cache" };
+    }
+
+    try {
+      const result = await fetchAssignmentSpec(
+        source,
+        entry && cached !== undefined ? entry : {},
+      );
+      if (result.notModified) {
+        if (!entry || cached === undefined) {
+          throw new Error("Server returned 304 for an uncached spec");
+        }
+        return { source, content: cached, hash: entry.hash, origin: "cache" };
+      }
+
+      const hash = hashContent(result.text);
+      this.writeObject(hash, result.text);
+      this.writeIndexEntry(source, {
+        hash,
+        fetchedAt: new Date().toISOString(),
+        ...result.validators,
+      });
+      return { source, content: result.text, hash, origin: "network" };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (entry && cached !== undefined) {
+        console.warn(`${reason}. Using spec cached at ${entry.fetchedAt}.`);
+        return { source, content: cached, hash: entry.hash, origin: "cache" };
+      }
+      throw new SpecUnavailableError(source, reason);
+    }
+  }
+
+  private get indexPath(): string {
+    return path.join(this.cacheDir, "index.json");
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.cacheDir, "objects", `${hash}.md`);
+  }
+
+  /**
+   * The cache index, or an empty one when it is missing or unreadable; the
+   * specs it listed are fetched again
+   */
+  private readIndex(): CacheIndex {
+    if (!existsSync(this.indexPath)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(this.indexPath, "utf-8"));
+    } catch (error) {
+      console.warn(
+        `Ignoring unreadable spec cache index ${this.indexPath}: ${error instanceof Error ? error.message : error}`,
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Re-read the index before writing, so entries other loads wrote while
+   * this one was fetching are kept
+   */
+  private writeIndexEntry(source: string, entry: CacheEntry): void {
+    const index = this.readIndex();
+    index[source] = entry;
+    mkdirSync(this.cacheDir, { recursive: true });
+    writeFileAtomic(this.indexPath, JSON.stringify(index, null, 2));
+  }
+
+  /**
+   * Read a cached object, ignoring it if its content no longer matches its hash
+   */
+  private readObject(hash: string): string | undefined {
+    const objectPath = this.objectPath(hash);
+    if (!existsSync(objectPath)) {
+      return undefined;
+    }
+    const content = readFileSync(objectPath, "utf-8");
+    return hashContent(content) === hash ? content : undefined;
+  }
+
+  private writeObject(hash: string, content: string): void {
+    mkdirSync(path.dirname(this.objectPath(hash)), { recursive: true });
+    writeFileAtomic(this.objectPath(hash), content);
+  }
+}
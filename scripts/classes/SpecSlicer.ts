@@ -0,0 +1,232 @@
+import type { EvaluationRow } from "./PromptGenerator.js";
+import { estimateTokens } from "./providers/pricing.js";
+
+/**
+ * A heading and the text up to the next heading of the same or higher level
+ */
+export interface SpecSection {
+  title: string;
+  level: number; // 0 for the preamble before the first heading
+  body: string; // Heading line plus text before the first child heading
+  children: SpecSection[];
+  start: number; // Position in document order, for reassembly
+}
+
+export interface SpecSliceOptions {
+  tokenBudget: number;
+}
+
+export const DEFAULT_SPEC_SLICE_OPTIONS: SpecSliceOptions = {
+  tokenBudget: 4000,
+};
+
+/**
+ * What was sent in place of the full spec, kept with each hint so sliced
+ * and full-spec runs can be compared
+ */
+export interface SpecSliceSummary {
+  mode: "sliced" | "full-fallback";
+  sections: string[];
+  tokens: number;
+  fullTokens: number;
+}
+
+export interface SpecSlice {
+  content: string;
+  summary: SpecSliceSummary;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// Class names like MeasuredIngredient and method names like toString
+const IDENTIFIER_PATTERN =
+  /\b(?:[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+|[a-z]+(?:[A-Z][a-z0-9]*)+)\b/g;
+// Identifiers from JUnit/stack-trace plumbing that say nothing about the spec
+const IGNORED_IDENTIFIERS = new Set([
+  "AssertionFailedError",
+  "AssertionError",
+  "NullPointerException",
+  "IllegalArgumentException",
+  "IllegalStateException",
+  "assertEquals",
+  "assertThrows",
+  "assertTrue",
+  "assertFalse",
+]);
+
+/**
+ * Split a markdown document into a heading tree. Headings inside fenced
+ * code blocks are treated as text.
+ */
+export function parseSpecSections(markdown: string): SpecSection {
+  const root: SpecSection = {
+    title: "",
+    level: 0,
+    body: "",
+    children: [],
+    start: 0,
+  };
+  const stack: SpecSection[] = [root];
+  const bodies = new Map<SpecSection, string[]>([[root, []]]);
+  let inFence = false;
+  let start = 0;
+
+  for (const line of markdown.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1]!.length;
+      while (stack.length > 1 && stack[stack.length - 1]!.level >= level) {
+        stack.pop();
+      }
+      const section: SpecSection = {
+        title: heading[2]!,
+        level,
+        body: "",
+        children: [],
+        start: ++start,
+      };
+      stack[stack.length - 1]!.children.push(section);
+      stack.push(section);
+      bodies.set(section, [line]);
+      continue;
+    }
+    bodies.get(stack[stack.length - 1]!)!.push(line);
+  }
+
+  for (const [section, lines] of bodies) {
+    section.body = lines.join("\n").trim();
+  }
+  return root;
+}
+
+/**
+ * Every section in the tree, in document order
+ */
+export function flattenSections(section: SpecSection): SpecSection[] {
+  return [section, ...section.children.flatMap(flattenSections)];
+}
+
+/**
+ * Selects the parts of an assignment spec that a failing row is about
+ */
+export class SpecSlicer {
+  private readonly options: SpecSliceOptions;
+  private readonly trees = new Map<string, SpecSection>();
+
+  constructor(options: SpecSliceOptions = DEFAULT_SPEC_SLICE_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * Class, method and test identifiers named by the row
+   */
+  extractTerms(row: EvaluationRow): string[] {
+    const terms = new Set<string>();
+    for (const text of [row.name, row.output]) {
+      for (const match of text.matchAll(IDENTIFIER_PATTERN)) {
+        if (!IGNORED_IDENTIFIERS.has(match[0])) {
+          terms.add(match[0]);
+        }
+      }
+    }
+    return [...terms];
+  }
+
+  /**
+   * Keep the highest-scoring sections that fit the token budget, in document
+   * order. Falls back to the full spec when nothing in it matches the row.
+   */
+  slice(spec: string, row: EvaluationRow): SpecSlice {
+    const fullTokens = estimateTokens(spec);
+    const fallback: SpecSlice = {
+      content: spec,
+      summary: {
+        mode: "full-fallback",
+        sections: [],
+        tokens: fullTokens,
+        fullTokens,
+      },
+    };
+
+    const terms = this.extractTerms(row);
+    const root = this.getTree(spec);
+    const sections = flattenSections(root).filter((section) => section.level > 0);
+    const scored = sections
+      .map((section) => ({ section, score: this.score(section, terms) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.section.start - b.section.start);
+
+    if (scored.length === 0) {
+      return fallback;
+    }
+    const scoredSet = new Set(scored.map(({ section }) => section));
+
+    const selected: SpecSection[] = [];
+    let tokens = 0;
+    const take = (section: SpecSection) => {
+      const cost = estimateTokens(section.body);
+      if (
+        selected.includes(section) ||
+        tokens + cost > this.options.tokenBudget
+      ) {
+        return;
+      }
+      selected.push(section);
+      tokens += cost;
+    };
+    // The preamble and the title section's intro usually state what the
+    // assignment is, so they go first
+    for (const intro of [root, ...root.children.filter((c) => c.level === 1)]) {
+      if (intro.body) {
+        take(intro);
+      }
+    }
+    for (const { section } of scored) {
+      take(section);
+    }
+
+    if (!selected.some((section) => scoredSet.has(section))) {
+      return fallback;
+    }
+
+    const ordered = selected.sort((a, b) => a.start - b.start);
+    const content = ordered.map((section) => section.body).join("\n\n");
+    return {
+      content,
+      summary: {
+        mode: "sliced",
+        sections: ordered
+          .filter((section) => section.level > 0)
+          .map((section) => section.title),
+        tokens: estimateTokens(content),
+        fullTokens,
+      },
+    };
+  }
+
+  /**
+   * Heading matches count for more than mentions in the section text
+   */
+  private score(section: SpecSection, terms: string[]): number {
+    let score = 0;
+    for (const term of terms) {
+      if (section.title.includes(term)) {
+        score += 5;
+      }
+      score += Math.min(3, section.body.split(term).length - 1);
+    }
+    return score;
+  }
+
+  private getTree(spec: string): SpecSection {
+    let tree = this.trees.get(spec);
+    if (!tree) {
+      tree = parseSpecSections(spec);
+      this.trees.set(spec, tree);
+    }
+    return tree;
+  }
+}
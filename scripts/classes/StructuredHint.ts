@@ -0,0 +1,160 @@
+import { ASSIGNMENT_ERROR_CATEGORIES } from "../../src/assignmentCategories.js";
+import type { JsonSchemaFormat } from "./providers/providerTypes.js";
+
+/**
+ * prose: the model replies with the student-facing message itself.
+ * json: it replies with a JSON object carrying the message and a diagnosis.
+ */
+export type OutputMode = "prose" | "json";
+
+export const OUTPUT_MODES: OutputMode[] = ["prose", "json"];
+
+/**
+ * What the model thought was wrong, returned alongside a JSON-mode hint
+ */
+export interface HintDiagnosis {
+  category: string; // An ASSIGNMENT_ERROR_CATEGORIES id, or "other"
+  location: string; // Class and method, e.g. "Recipe.scale"; "" when unknown
+  specSection: string; // "" when the hint does not rely on one
+  nextStep: string;
+}
+
+export interface StructuredHint {
+  hint: string;
+  diagnosis: HintDiagnosis;
+}
+
+export const DIAGNOSIS_CATEGORIES = [
+  ...ASSIGNMENT_ERROR_CATEGORIES.map((category) => category.id),
+  "other",
+];
+
+// Strict-mode compatible: every property required, no others allowed
+export const STRUCTURED_HINT_SCHEMA: JsonSchemaFormat = {
+  name: "feedbot_hint",
+  schema: {
+    type: "object",
+    properties: {
+      category: { type: "string", enum: DIAGNOSIS_CATEGORIES },
+      location: { type: "string" },
+      spec_section: { type: "string" },
+      hint: { type: "string" },
+      next_step: { type: "string" },
+    },
+    required: ["category", "location", "spec_section", "hint", "next_step"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * A JSON-mode response that could not be read as a hint
+ */
+export class StructuredHintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StructuredHintError";
+  }
+}
+
+// Accepted spellings for each field, for models that drift from the schema
+const FIELD_ALIASES: Record<keyof HintDiagnosis | "hint", string[]> = {
+  hint: ["hint", "message", "hint_text", "hintText"],
+  category: ["category", "diagnosis_category", "diagnosisCategory"],
+  location: ["location", "located", "class_method"],
+  specSection: ["spec_section", "specSection", "section"],
+  nextStep: ["next_step", "nextStep"],
+};
+
+function readField(
+  object: Record<string, unknown>,
+  field: keyof typeof FIELD_ALIASES,
+): string {
+  for (const key of FIELD_ALIASES[field]) {
+    const value = object[key];
+    if (typeof value === "string") {
+      return value.trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * The outermost {...} in a response, without code fences or commentary
+ */
+function extractObject(content: string): string {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new StructuredHintError("Response is not a JSON object");
+  }
+  return content.slice(start, end + 1);
+}
+
+function parseObject(text: string): Record<string, unknown> {
+  const attempts = [
+    text,
+    // Trailing commas and typographic quotes are the usual slips
+    text.replace(/,\s*([}\]])/g, "$1").replace(/[“”]/g, '"'),
+  ];
+  for (const attempt of attempts) {
+    try {
+      const parsed: unknown = JSON.parse(attempt);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // try the next form
+    }
+  }
+  throw new StructuredHintError("Response is not valid JSON");
+}
+
+/**
+ * Read a JSON-mode response. Tolerates code fences, surrounding text and
+ * alternate field names; an unknown category becomes "other". A hint
+ * without its "Next step:" sentence gets one built from next_step.
+ */
+export function parseStructuredHint(content: string): StructuredHint {
+  const object = parseObject(extractObject(content));
+
+  let hint = readField(object, "hint");
+  if (!hint) {
+    throw new StructuredHintError('JSON response has no "hint" field');
+  }
+  const nextStep = readField(object, "nextStep");
+  if (!hint.includes("Next step:") && nextStep) {
+    hint = `${hint} Next step: ${nextStep.replace(/^Next step:\s*/i, "")}`;
+  }
+
+  const category = readField(object, "category");
+  return {
+    hint,
+    diagnosis: {
+      category: DIAGNOSIS_CATEGORIES.includes(category) ? category : "other",
+      location: readField(object, "location"),
+      specSection: readField(object, "specSection"),
+      nextStep,
+    },
+  };
+}
+
+/**
+ * Report columns for a diagnosis, in the JSON field names
+ */
+export const DIAGNOSIS_COLUMNS = [
+  "category",
+  "location",
+  "spec_section",
+  "next_step",
+] as const;
+
+export function diagnosisColumns(
+  diagnosis: HintDiagnosis,
+): Record<(typeof DIAGNOSIS_COLUMNS)[number], string> {
+  return {
+    category: diagnosis.category,
+    location: diagnosis.location,
+    spec_section: diagnosis.specSection,
+    next_step: diagnosis.nextStep,
+  };
+}
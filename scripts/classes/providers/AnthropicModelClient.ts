@@ -0,0 +1,128 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  ANTHROPIC_LEDGER,
+  OpenRouterCostLedger,
+} from "../OpenRouterCostLedger.js";
+import { computeCostUSD, type ModelPricing } from "./pricing.js";
+import type {
+  ChatMessage,
+  LlmProviderClient,
+  ProviderRequestOptions,
+  ProviderResult,
+  UsageMetadata,
+} from "./providerTypes.js";
+import { parseRateLimitHeaders } from "./rateLimitHeaders.js";
+import { withDeadline } from "./requestDeadline.js";
+
+export interface AnthropicClientConfig {
+  apiKey: string;
+  maxTokens?: number;
+  pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * Native Anthropic Messages API client. System messages (role, rules and the
+ * assignment spec) are sent as a cacheable system prompt so the spec is only
+ * billed at the full input rate once per cache window.
+ */
+export class AnthropicModelClient implements LlmProviderClient {
+  private client: Anthropic;
+  private maxTokens: number;
+  private pricing: Record<string, ModelPricing>;
+  private costLedger: OpenRouterCostLedger;
+
+  constructor(config: AnthropicClientConfig) {
+    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.maxTokens = config.maxTokens ?? 500;
+    this.pricing = config.pricing ?? {};
+    this.costLedger = new OpenRouterCostLedger(ANTHROPIC_LEDGER);
+  }
+
+  /**
+   * Merge system messages into one system prompt with a cache breakpoint at
+   * the end, so everything before the per-row user turn is cached
+   */
+  private buildSystem(messages: ChatMessage[]): Anthropic.TextBlockParam[] {
+    const text = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    if (!text) {
+      return [];
+    }
+    return [{ type: "text", text, cache_control: { type: "ephemeral" } }];
+  }
+
+  async process(
+    model: string,
+    messages: ChatMessage[],
+    options: ProviderRequestOptions = {},
+  ): Promise<ProviderResult> {
+    // No structured output, seed or reasoning effort here: jsonSchema is left
+    // to the prompt and the other two are not sent
+    const { temperature, topP, stop } = options;
+    const system = this.buildSystem(messages);
+    const turns: Anthropic.MessageParam[] = messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({
+        role: message.role as "user" | "assistant",
+        content: message.content,
+      }));
+
+    const { data: response, response: raw } = await withDeadline(
+      options,
+      (signal) =>
+        this.client.messages
+          .create(
+            {
+              model,
+              max_tokens: options.maxTokens ?? this.maxTokens,
+              messages: turns,
+              ...(system.length > 0 ? { system } : {}),
+              ...(temperature !== undefined ? { temperature } : {}),
+              ...(topP !== undefined ? { top_p: topP } : {}),
+              ...(stop !== undefined ? { stop_sequences: stop } : {}),
+            },
+            signal ? { signal } : {},
+          )
+          .withResponse(),
+    );
+
+    const content = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    // input_tokens excludes cached tokens; fold them back into promptTokens
+    // so totals line up with the other providers
+    const cacheReadTokens = response.usage.cache_read_input_tokens ?? 0;
+    const cacheWriteTokens = response.usage.cache_creation_input_tokens ?? 0;
+    const promptTokens =
+      response.usage.input_tokens + cacheReadTokens + cacheWriteTokens;
+    const usage: UsageMetadata = {
+      promptTokens,
+      completionTokens: response.usage.output_tokens,
+      totalTokens: promptTokens + response.usage.output_tokens,
+      cacheReadTokens,
+      cacheWriteTokens,
+      responseId: response.id,
+    };
+
+    const pricing = this.pricing[model];
+    if (pricing) {
+      usage.costUSD = computeCostUSD(usage, pricing);
+      this.costLedger.logRequest(
+        model,
+        usage.promptTokens!,
+        usage.completionTokens!,
+        usage.totalTokens!,
+        usage.costUSD,
+        cacheReadTokens,
+        cacheWriteTokens,
+        options.context?.fallbackFor,
+      );
+    }
+
+    const rateLimit = parseRateLimitHeaders(raw.headers);
+    return { content, usage, ...(rateLimit ? { rateLimit } : {}) };
+  }
+}
@@ -2,8 +2,11 @@ import OpenAI from "openai";
 import type {
   ChatMessage,
   LlmProviderClient,
+  ProviderRequestOptions,
   ProviderResult,
 } from "./providerTypes.js";
+import { parseRateLimitHeaders } from "./rateLimitHeaders.js";
+import { withDeadline } from "./requestDeadline.js";
 
 export interface AzureClientConfig {
   apiKey: string;
@@ -26,15 +29,58 @@ export class AzureModelClient implements LlmProviderClient {
   async process(
     model: string,
     messages: ChatMessage[],
-    temperature?: number,
+    options: ProviderRequestOptions = {},
   ): Promise<ProviderResult> {
-    const payload: any = { model, messages };
-    if (temperature !== undefined) payload.temperature = temperature;
+    const payload: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model,
+      messages,
+    };
+    if (options.temperature !== undefined) {
+      payload.temperature = options.temperature;
+    }
+    if (options.topP !== undefined) {
+      payload.top_p = options.topP;
+    }
+    if (options.maxTokens !== undefined) {
+      payload.max_completion_tokens = options.maxTokens;
+    }
+    if (options.reasoningEffort !== undefined) {
+      payload.reasoning_effort = options.reasoningEffort;
+    }
+    if (options.seed !== undefined) {
+      payload.seed = options.seed;
+    }
+    if (options.stop !== undefined) {
+      payload.stop = options.stop;
+    }
+    if (options.jsonSchema) {
+      payload.response_format = {
+        type: "json_schema",
+        json_schema: { ...options.jsonSchema, strict: true },
+      };
+    }
 
-    const resp = await this.client.chat.completions.create(payload);
+    return withDeadline(options, (signal) =>
+      options.stream
+        ? this.processStream(payload, signal)
+        : this.processOnce(payload, signal),
+    );
+  }
+
+  private async processOnce(
+    payload: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    signal: AbortSignal | undefined,
+  ): Promise<ProviderResult> {
+    const { data: resp, response } = await this.client.chat.completions
+      .create(payload, signal ? { signal } : {})
+      .withResponse();
     const content = resp.choices[0]?.message.content || "";
 
     const result: ProviderResult = { content };
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      result.rateLimit = rateLimit;
+    }
     if (resp.usage) {
       result.usage = {
         promptTokens: resp.usage.prompt_tokens,
@@ -45,4 +91,43 @@ export class AzureModelClient implements LlmProviderClient {
 
     return result;
   }
+
+  /**
+   * Accumulate streamed deltas; usage arrives in a final chunk with no choices
+   */
+  private async processStream(
+    payload: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    signal: AbortSignal | undefined,
+  ): Promise<ProviderResult> {
+    const { data: stream, response } = await this.client.chat.completions
+      .create(
+        {
+          ...payload,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        signal ? { signal } : {},
+      )
+      .withResponse();
+
+    let content = "";
+    const result: ProviderResult = { content };
+    for await (const chunk of stream) {
+      content += chunk.choices[0]?.delta?.content ?? "";
+      if (chunk.usage) {
+        result.usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+    result.content = content;
+
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      result.rateLimit = rateLimit;
+    }
+    return result;
+  }
 }
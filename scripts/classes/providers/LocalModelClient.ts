@@ -0,0 +1,111 @@
+import OpenAI from "openai";
+import { computeCostUSD, FREE_PRICING, type ModelPricing } from "./pricing.js";
+import type {
+  ChatMessage,
+  LlmProviderClient,
+  ProviderRequestOptions,
+  ProviderResult,
+} from "./providerTypes.js";
+import { parseRateLimitHeaders } from "./rateLimitHeaders.js";
+import { withDeadline } from "./requestDeadline.js";
+
+export interface LocalClientConfig {
+  baseURL: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // Most local servers ignore it
+  pricing?: Record<string, ModelPricing>; // Missing models are free
+}
+
+/**
+ * Talks to any OpenAI-compatible server (Ollama, llama.cpp, vLLM) so
+ * open-weight models can be benchmarked against the same prompts
+ */
+export class LocalModelClient implements LlmProviderClient {
+  private client: OpenAI;
+  private pricing: Record<string, ModelPricing>;
+  private schemaRejected: Set<string>; // Models whose server refused a response_format
+
+  constructor(config: LocalClientConfig) {
+    this.client = new OpenAI({
+      // The SDK refuses an empty key even when the server never checks it
+      apiKey: config.apiKey || "local",
+      baseURL: config.baseURL,
+    });
+    this.pricing = config.pricing ?? {};
+    this.schemaRejected = new Set();
+  }
+
+  async process(
+    model: string,
+    messages: ChatMessage[],
+    options: ProviderRequestOptions = {},
+  ): Promise<ProviderResult> {
+    // reasoningEffort is not sent; local servers configure reasoning per model
+    const { temperature, topP, maxTokens, seed, stop } = options;
+    const jsonSchema = this.schemaRejected.has(model)
+      ? undefined
+      : options.jsonSchema;
+    const request = withDeadline(options, (signal) =>
+      this.client.chat.completions
+        .create(
+          {
+            model,
+            messages,
+            ...(temperature !== undefined ? { temperature } : {}),
+            ...(topP !== undefined ? { top_p: topP } : {}),
+            ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+            ...(seed !== undefined ? { seed } : {}),
+            ...(stop !== undefined ? { stop } : {}),
+            ...(jsonSchema
+              ? {
+                  response_format: {
+                    type: "json_schema" as const,
+                    json_schema: { ...jsonSchema, strict: true },
+                  },
+                }
+              : {}),
+          },
+          signal ? { signal } : {},
+        )
+        .withResponse(),
+    );
+
+    let completion;
+    try {
+      completion = await request;
+    } catch (error) {
+      // Servers without structured output reject the schema or ignore it.
+      // A rejected one is not sent again; the JSON instructions in the
+      // prompt and the repair loop still apply.
+      if (!jsonSchema || !(error instanceof OpenAI.BadRequestError)) {
+        throw error;
+      }
+      console.warn(
+        `${model} rejected a JSON schema response_format; sending it without one`,
+      );
+      this.schemaRejected.add(model);
+      return this.process(model, messages, options);
+    }
+    const { data: resp, response } = completion;
+    const content = resp.choices[0]?.message.content || "";
+
+    const result: ProviderResult = { content };
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      result.rateLimit = rateLimit;
+    }
+    if (resp.usage) {
+      const usage = {
+        promptTokens: resp.usage.prompt_tokens,
+        completionTokens: resp.usage.completion_tokens,
+        totalTokens: resp.usage.total_tokens,
+      };
+      result.usage = {
+        ...usage,
+        responseId: resp.id,
+        costUSD: computeCostUSD(usage, this.pricing[model] ?? FREE_PRICING),
+      };
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,245 @@
+import { createHash } from "crypto";
+import { MODEL_PRICING } from "../../../constants/models.js";
+import {
+  computeCostUSD,
+  estimateTokens,
+  FREE_PRICING,
+  type ModelPricing,
+} from "./pricing.js";
+import type {
+  ChatMessage,
+  LlmProviderClient,
+  ProviderRequestOptions,
+  ProviderResult,
+  RequestContext,
+} from "./providerTypes.js";
+import { withDeadline } from "./requestDeadline.js";
+
+// unauthorized is a fatal error, like a bad API key
+export type MockFaultKind =
+  "rate-limit" | "timeout" | "unavailable" | "unauthorized" | "empty" | "retry";
+
+/**
+ * A scripted failure. `calls` fires on the given 1-based call numbers across
+ * the whole run; `match` fires on the first `times` calls for a fingerprint
+ * or test name; `model` alone fires on every call to that model.
+ */
+export interface MockFault {
+  kind: MockFaultKind;
+  calls?: number[];
+  match?: string;
+  times?: number;
+  model?: string; // Only fires for this model
+  retryAfterSeconds?: number; // Sent as Retry-After with a rate-limit fault
+}
+
+/**
+ * Scripted behaviour for the mock provider, usually loaded from the JSON
+ * file named by MOCK_LLM_SCRIPT
+ */
+export interface MockScript {
+  // Keyed by fingerprint or test name. With a JSON schema requested, a
+  // response starting with "{" or a code fence is returned as is; others
+  // are wrapped in JSON.
+  responses?: Record<string, string>;
+  template?: string; // Supports {{testName}} and {{fingerprint}}
+  judgeReply?: string; // Defaults to picking the last candidate shown
+  faults?: MockFault[];
+  latencyMs?: number;
+  pricing?: ModelPricing;
+}
+
+const DEFAULT_TEMPLATE =
+  "Your work on {{testName}} is close, and this failure points back to a rule in the assignment spec. " +
+  "Re-read the part of the spec that describes the behavior this test checks and compare it with what your code does. " +
+  "Focus on one difference at a time so you can see which rule applies. " +
+  "Next step: re-read the spec section for {{testName}} and write down the rule it states in your own words.";
+
+/**
+ * Deterministic offline provider for exercising the pipeline without
+ * network access or API keys
+ */
+export class MockModelClient implements LlmProviderClient {
+  private script: MockScript;
+  private callCount = 0;
+  private callsByKey = new Map<string, number>();
+
+  constructor(script: MockScript = {}) {
+    this.script = script;
+  }
+
+  /**
+   * Wait out the scripted latency, stopping early if the request is aborted
+   */
+  private async sleep(
+    ms: number,
+    signal: AbortSignal | undefined,
+  ): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Find the fault scheduled for this call, if any
+   */
+  private findFault(
+    model: string,
+    callNumber: number,
+    keyCalls: Map<string, number>,
+  ): MockFault | undefined {
+    return (this.script.faults ?? []).find((fault) => {
+      if (fault.model !== undefined && fault.model !== model) {
+        return false;
+      }
+      if (fault.calls === undefined && fault.match === undefined) {
+        return fault.model !== undefined;
+      }
+      if (fault.calls?.includes(callNumber)) {
+        return true;
+      }
+      if (fault.match !== undefined) {
+        const seen = keyCalls.get(fault.match);
+        return seen !== undefined && seen <= (fault.times ?? 1);
+      }
+      return false;
+    });
+  }
+
+  private renderHint(context: RequestContext): string {
+    const keys = [context.fingerprint, context.testName].filter(
+      (key): key is string => key !== undefined,
+    );
+    for (const key of keys) {
+      const canned = this.script.responses?.[key];
+      if (canned !== undefined) {
+        return canned;
+      }
+    }
+
+    const template = this.script.template ?? DEFAULT_TEMPLATE;
+    return template
+      .replaceAll("{{testName}}", context.testName || "this test")
+      .replaceAll("{{fingerprint}}", context.fingerprint ?? "");
+  }
+
+  private renderJudgeReply(messages: ChatMessage[]): string {
+    if (this.script.judgeReply !== undefined) {
+      return this.script.judgeReply;
+    }
+    const numbers = [
+      ...messages
+        .map((message) => message.content)
+        .join("\n")
+        .matchAll(/<candidate number="(\d+)">/g),
+    ].map((match) => match[1]);
+    return `${numbers.at(-1) ?? 1}\nIt is the last candidate shown (mock).`;
+  }
+
+  /**
+   * A hint as a structured-output response
+   */
+  private renderJson(hint: string): string {
+    if (/^\s*(\{|```)/.test(hint)) {
+      return hint;
+    }
+    const nextStep = /Next step:\s*(.*)$/s.exec(hint)?.[1] ?? "";
+    return JSON.stringify({
+      category: "other",
+      location: "",
+      spec_section: "",
+      hint,
+      next_step: nextStep,
+    });
+  }
+
+  async process(
+    model: string,
+    messages: ChatMessage[],
+    options: ProviderRequestOptions = {},
+  ): Promise<ProviderResult> {
+    const context: RequestContext = options.context ?? {};
+    const callNumber = ++this.callCount;
+
+    // Count per-key calls before matching so `times` is 1-based
+    const keyCalls = new Map<string, number>();
+    for (const key of [context.fingerprint, context.testName]) {
+      if (key === undefined) continue;
+      const count = (this.callsByKey.get(key) ?? 0) + 1;
+      this.callsByKey.set(key, count);
+      keyCalls.set(key, count);
+    }
+
+    if (this.script.latencyMs) {
+      const latencyMs = this.script.latencyMs;
+      await withDeadline(options, (signal) => this.sleep(latencyMs, signal));
+    }
+
+    const fault = this.findFault(model, callNumber, keyCalls);
+    if (fault?.kind === "rate-limit") {
+      throw Object.assign(new Error("429 Rate limit exceeded (mock)"), {
+        status: 429,
+        headers:
+          fault.retryAfterSeconds !== undefined
+            ? { "retry-after": String(fault.retryAfterSeconds) }
+            : {},
+      });
+    }
+    if (fault?.kind === "unavailable") {
+      throw Object.assign(
+        new Error(`404 Model ${model} is not available (mock)`),
+        { status: 404 },
+      );
+    }
+    if (fault?.kind === "unauthorized") {
+      throw Object.assign(new Error("401 Invalid API key (mock)"), {
+        status: 401,
+      });
+    }
+    if (fault?.kind === "timeout") {
+      throw Object.assign(new Error("Request timed out (mock)"), {
+        name: "TimeoutError",
+      });
+    }
+
+    const content =
+      fault?.kind === "empty"
+        ? ""
+        : fault?.kind === "retry"
+          ? "RETRY"
+          : context.judge
+            ? this.renderJudgeReply(messages)
+            : options.jsonSchema
+              ? this.renderJson(this.renderHint(context))
+              : this.renderHint(context);
+
+    const promptTokens = estimateTokens(
+      messages.map((message) => message.content).join("\n"),
+    );
+    const completionTokens = estimateTokens(content);
+    const usage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      responseId: `mock-${createHash("sha256")
+        .update(`${callNumber}:${context.fingerprint ?? ""}`)
+        .digest("hex")
+        .slice(0, 12)}`,
+    };
+    const pricing = this.script.pricing ?? MODEL_PRICING[model] ?? FREE_PRICING;
+
+    return {
+      content,
+      usage: { ...usage, costUSD: computeCostUSD(usage, pricing) },
+    };
+  }
+}
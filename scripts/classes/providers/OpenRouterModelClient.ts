@@ -1,25 +1,49 @@
-import { OpenRouter } from "@openrouter/sdk";
+import { OpenRouterCore } from "@openrouter/sdk/core.js";
+import { chatSend } from "@openrouter/sdk/funcs/chatSend.js";
+import type {
+  ChatGenerationParams,
+  ChatGenerationTokenUsage,
+} from "@openrouter/sdk/models";
+import type { Result } from "@openrouter/sdk/types";
+import type { APIPromise } from "@openrouter/sdk/types/async.js";
 import { OpenRouterCostLedger } from "../OpenRouterCostLedger.js";
 import type {
   ChatMessage,
   LlmProviderClient,
+  ProviderRequestOptions,
   ProviderResult,
 } from "./providerTypes.js";
+import {
+  parseRateLimitHeaders,
+  type RateLimitInfo,
+} from "./rateLimitHeaders.js";
+import { withDeadline } from "./requestDeadline.js";
 
 export interface OpenRouterClientConfig {
   apiKey: string;
   fetchCosts?: boolean; // Whether to fetch costs immediately (defaults to env var or false)
 }
 
+/**
+ * The parts of a response, whether sent whole or streamed
+ */
+interface CompletedResponse {
+  id?: string;
+  content: string;
+  usage?: ChatGenerationTokenUsage;
+  cost?: unknown;
+  rateLimit?: RateLimitInfo;
+}
+
 export class OpenRouterModelClient implements LlmProviderClient {
-  private client: OpenRouter;
+  private client: OpenRouterCore;
   private apiKey: string;
   private costLedger: OpenRouterCostLedger;
   private fetchCosts: boolean;
 
   constructor(config: OpenRouterClientConfig) {
     this.apiKey = config.apiKey;
-    this.client = new OpenRouter({ apiKey: config.apiKey });
+    this.client = new OpenRouterCore({ apiKey: config.apiKey });
     this.costLedger = new OpenRouterCostLedger();
     // Default to false unless explicitly set or env var is true
     this.fetchCosts =
@@ -86,23 +110,118 @@ export class OpenRouterModelClient implements LlmProviderClient {
     return "";
   }
 
+  /**
+   * Await an SDK call, throwing its error like the SDK's own methods do, and
+   * read the rate limit headers off the HTTP response
+   */
+  private async withHeaders<T>(
+    call: APIPromise<Result<T, unknown>>,
+  ): Promise<[T, RateLimitInfo | undefined]> {
+    const [result, apiCall] = await call.$inspect();
+    if (!result.ok) {
+      throw result.error;
+    }
+    return [result.value, parseRateLimitHeaders(apiCall.response?.headers)];
+  }
+
+  private async send(
+    params: ChatGenerationParams,
+    signal: AbortSignal | undefined,
+  ): Promise<CompletedResponse> {
+    const [response, rateLimit] = await this.withHeaders(
+      chatSend(
+        this.client,
+        { chatGenerationParams: { ...params, stream: false } },
+        signal ? { signal } : {},
+      ),
+    );
+    return {
+      id: response.id,
+      content: this.extractContent(response.choices[0]?.message?.content),
+      ...(response.usage ? { usage: response.usage } : {}),
+      cost: (response as { cost?: unknown }).cost,
+      ...(rateLimit ? { rateLimit } : {}),
+    };
+  }
+
+  /**
+   * Accumulate streamed deltas. Usage (and OpenRouter's cost) arrive in the
+   * last chunk; an error after the stream started arrives as a chunk too.
+   */
+  private async sendStream(
+    params: ChatGenerationParams,
+    signal: AbortSignal | undefined,
+  ): Promise<CompletedResponse> {
+    const [stream, rateLimit] = await this.withHeaders(
+      chatSend(
+        this.client,
+        {
+          chatGenerationParams: {
+            ...params,
+            stream: true,
+            streamOptions: { includeUsage: true },
+          },
+        },
+        signal ? { signal } : {},
+      ),
+    );
+
+    const response: CompletedResponse = {
+      content: "",
+      ...(rateLimit ? { rateLimit } : {}),
+    };
+    for await (const chunk of stream) {
+      if (chunk.error) {
+        throw Object.assign(new Error(chunk.error.message), {
+          statusCode: chunk.error.code,
+        });
+      }
+      response.id = chunk.id;
+      response.content += chunk.choices[0]?.delta.content ?? "";
+      if (chunk.usage) {
+        response.usage = chunk.usage;
+        response.cost = (chunk.usage as { cost?: unknown }).cost;
+      }
+    }
+    return response;
+  }
+
   async process(
     model: string,
     messages: ChatMessage[],
-    temperature?: number,
+    options: ProviderRequestOptions = {},
   ): Promise<ProviderResult> {
-    const response = await this.client.chat.send({
-      chatGenerationParams: {
-        model,
-        messages,
-        maxTokens: 500,
-        stream: false,
-        ...(temperature !== undefined ? { temperature } : {}),
-      },
-    });
+    const params: ChatGenerationParams = {
+      model,
+      messages,
+      ...(options.temperature !== undefined
+        ? { temperature: options.temperature }
+        : {}),
+      ...(options.topP !== undefined ? { topP: options.topP } : {}),
+      maxTokens: options.maxTokens ?? 500,
+      ...(options.reasoningEffort !== undefined
+        ? { reasoning: { effort: options.reasoningEffort } }
+        : {}),
+      ...(options.seed !== undefined ? { seed: options.seed } : {}),
+      ...(options.stop !== undefined ? { stop: options.stop } : {}),
+      ...(options.jsonSchema
+        ? {
+            responseFormat: {
+              type: "json_schema" as const,
+              jsonSchema: { ...options.jsonSchema, strict: true },
+            },
+          }
+        : {}),
+    };
+    const response = await withDeadline(options, (signal) =>
+      options.stream
+        ? this.sendStream(params, signal)
+        : this.send(params, signal),
+    );
 
     const result: ProviderResult = {
-      content: this.extractContent(response.choices[0]?.message?.content),
+      content: response.content,
+      ...(response.rateLimit ? { rateLimit: response.rateLimit } : {}),
     };
 
     if (response.usage) {
@@ -111,6 +230,10 @@ export class OpenRouterModelClient implements LlmProviderClient {
         completionTokens: response.usage.completionTokens,
         totalTokens: response.usage.totalTokens,
       };
+      const cachedTokens = response.usage.promptTokensDetails?.cachedTokens;
+      if (cachedTokens) {
+        result.usage.cacheReadTokens = cachedTokens;
+      }
     }
 
     // Always capture response ID for batch cost lookup later
@@ -119,9 +242,8 @@ export class OpenRouterModelClient implements LlmProviderClient {
       result.usage.responseId = response.id;
     }
 
-    const responseCost = (response as { cost?: unknown }).cost;
-    if (result.usage && typeof responseCost === "number") {
-      result.usage.costUSD = responseCost;
+    if (result.usage && typeof response.cost === "number") {
+      result.usage.costUSD = response.cost;
     }
 
     // Only fetch cost immediately if fetchCosts is enabled
@@ -152,6 +274,9 @@ export class OpenRouterModelClient implements LlmProviderClient {
         result.usage.completionTokens,
         result.usage.totalTokens,
         result.usage.costUSD,
+        result.usage.cacheReadTokens,
+        undefined,
+        options.context?.fallbackFor,
       );
     }
 
@@ -0,0 +1,50 @@
+import type { UsageMetadata } from "./providerTypes.js";
+
+/**
+ * USD price per million tokens for a model
+ */
+export interface ModelPricing {
+  inputPerMillionUSD: number;
+  outputPerMillionUSD: number;
+  cacheReadPerMillionUSD?: number; // Defaults to the input price
+  cacheWritePerMillionUSD?: number; // Defaults to the input price
+}
+
+export const FREE_PRICING: ModelPricing = {
+  inputPerMillionUSD: 0,
+  outputPerMillionUSD: 0,
+};
+
+/**
+ * Rough token count (~4 characters per token) for providers that do not
+ * report usage and for offline estimates
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Compute the cost of a request from its token usage. promptTokens includes
+ * any cached tokens, which are billed at the cache read/write rates instead.
+ */
+export function computeCostUSD(
+  usage: UsageMetadata,
+  pricing: ModelPricing,
+): number {
+  const cacheReadTokens = usage.cacheReadTokens ?? 0;
+  const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+  const uncachedPromptTokens = Math.max(
+    0,
+    (usage.promptTokens ?? 0) - cacheReadTokens - cacheWriteTokens,
+  );
+  const completionTokens = usage.completionTokens ?? 0;
+  return (
+    (uncachedPromptTokens * pricing.inputPerMillionUSD +
+      cacheReadTokens *
+        (pricing.cacheReadPerMillionUSD ?? pricing.inputPerMillionUSD) +
+      cacheWriteTokens *
+        (pricing.cacheWritePerMillionUSD ?? pricing.inputPerMillionUSD) +
+      completionTokens * pricing.outputPerMillionUSD) /
+    1_000_000
+  );
+}
@@ -1,7 +1,11 @@
+import type { RateLimitInfo } from "./rateLimitHeaders.js";
+
 export interface UsageMetadata {
   promptTokens?: number;
   completionTokens?: number;
   totalTokens?: number;
+  cacheReadTokens?: number; // Prompt tokens served from the provider's prompt cache
+  cacheWriteTokens?: number; // Prompt tokens written to the prompt cache
   costUSD?: number;
   responseId?: string; // OpenRouter generation ID for batch cost lookup
 }
@@ -9,6 +13,7 @@ export interface UsageMetadata {
 export interface ProviderResult {
   content: string;
   usage?: UsageMetadata;
+  rateLimit?: RateLimitInfo; // From the response headers, for pacing
 }
 
 export interface ChatMessage {
@@ -16,10 +21,57 @@ export interface ChatMessage {
   content: string;
 }
 
+/**
+ * Identifies the dataset row a request belongs to. Real providers ignore it;
+ * the mock provider keys canned responses and injected faults on it.
+ */
+export interface RequestContext {
+  fingerprint?: string;
+  testName?: string;
+  fallbackFor?: string; // The model this request stands in for; kept in cost ledgers
+  judge?: boolean; // Picks among a row's candidate hints rather than writing one
+}
+
+/**
+ * A JSON schema the response must follow, for providers with structured
+ * output support
+ */
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+/**
+ * Sampling and length parameters for a request. Providers leave out the
+ * ones their API does not accept.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  reasoningEffort?: ReasoningEffort; // Reasoning models only
+  seed?: number;
+  stop?: string[];
+}
+
+/**
+ * Per-request settings. timeoutMs covers the whole response, including a
+ * streamed one; aborting the signal cancels the request.
+ */
+export interface ProviderRequestOptions extends GenerationParams {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  stream?: boolean; // Stream the response and accumulate it (Azure, OpenRouter)
+  jsonSchema?: JsonSchemaFormat; // Ask for JSON matching this schema where supported
+  context?: RequestContext;
+}
+
 export interface LlmProviderClient {
   process(
     model: string,
     messages: ChatMessage[],
-    temperature?: number,
+    options?: ProviderRequestOptions,
   ): Promise<ProviderResult>;
 }
@@ -0,0 +1,104 @@
+/**
+ * Rate limit state a provider reported in its response headers
+ */
+export interface RateLimitInfo {
+  retryAfterMs?: number; // How long to wait before the next request
+  remainingRequests?: number; // Left in the current window
+  remainingTokens?: number;
+  resetMs?: number; // Until the request window resets
+}
+
+export type HeaderSource =
+  Headers | Record<string, string | string[] | null | undefined>;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | null>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  const value = key !== undefined ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : (value ?? undefined);
+}
+
+function readNumber(headers: HeaderSource, name: string): number | undefined {
+  const value = Number.parseFloat(readHeader(headers, name) ?? "");
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Milliseconds in an OpenAI-style duration such as "1s", "6m0s" or "250ms"
+ */
+export function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000 };
+  let total = 0;
+  let matched = "";
+  for (const [part, amount, unit] of value.matchAll(
+    /(\d+(?:\.\d+)?)(ms|h|m|s)/g,
+  )) {
+    total += Number(amount) * (unit === "ms" ? 1 : units[unit!]!);
+    matched += part;
+  }
+  return matched.length > 0 && matched === value.trim() ? total : undefined;
+}
+
+/**
+ * A reset time as milliseconds from now. Providers send it as a duration,
+ * seconds, epoch milliseconds (OpenRouter) or a date (Anthropic).
+ */
+function parseReset(
+  value: string | undefined,
+  now: number,
+): number | undefined {
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+  const duration = parseDuration(value);
+  if (duration !== undefined) {
+    return duration;
+  }
+  const number = Number(value);
+  if (Number.isFinite(number)) {
+    return Math.max(0, number > 1e12 ? number - now : number * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read Retry-After and the x-ratelimit-* (or anthropic-ratelimit-*) headers.
+ * Returns undefined when none are present.
+ */
+export function parseRateLimitHeaders(
+  headers: HeaderSource | undefined,
+  now: number = Date.now(),
+): RateLimitInfo | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfterMs =
+    readNumber(headers, "retry-after-ms") ??
+    parseReset(readHeader(headers, "retry-after"), now);
+  const remainingRequests =
+    readNumber(headers, "x-ratelimit-remaining-requests") ??
+    readNumber(headers, "x-ratelimit-remaining") ??
+    readNumber(headers, "anthropic-ratelimit-requests-remaining");
+  const remainingTokens =
+    readNumber(headers, "x-ratelimit-remaining-tokens") ??
+    readNumber(headers, "anthropic-ratelimit-tokens-remaining");
+  const resetMs = parseReset(
+    readHeader(headers, "x-ratelimit-reset-requests") ??
+      readHeader(headers, "x-ratelimit-reset") ??
+      readHeader(headers, "anthropic-ratelimit-requests-reset"),
+    now,
+  );
+
+  const info: RateLimitInfo = {
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+    ...(remainingRequests !== undefined ? { remainingRequests } : {}),
+    ...(remainingTokens !== undefined ? { remainingTokens } : {}),
+    ...(resetMs !== undefined ? { resetMs } : {}),
+  };
+  return Object.keys(info).length > 0 ? info : undefined;
+}
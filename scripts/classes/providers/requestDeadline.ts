@@ -0,0 +1,41 @@
+import type { ProviderRequestOptions } from "./providerTypes.js";
+
+/**
+ * A request that ran past ProviderRequestOptions.timeoutMs. Retried by the
+ * rate limiter like other transient failures, unlike a cancelled request.
+ */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Run a request with one signal for both the caller's cancellation and the
+ * timeout, so a hung stream is cut off as well as a hung connection
+ */
+export async function withDeadline<T>(
+  options: ProviderRequestOptions,
+  request: (signal: AbortSignal | undefined) => Promise<T>,
+): Promise<T> {
+  const { timeoutMs, signal } = options;
+  if (timeoutMs === undefined) {
+    return request(signal);
+  }
+
+  const deadline = AbortSignal.timeout(timeoutMs);
+  try {
+    return await request(
+      signal ? AbortSignal.any([signal, deadline]) : deadline,
+    );
+  } catch (error) {
+    if (deadline.aborted && !signal?.aborted) {
+      throw new RequestTimeoutError(timeoutMs);
+    }
+    throw error;
+  }
+}
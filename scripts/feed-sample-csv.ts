@@ -7,6 +7,10 @@ import { fileURLToPath } from "url";
 import * as dotenv from "dotenv";
 import { MODELS_BY_PROVIDER, type LlmProvider } from "../constants/models.js";
 import { PROMPT_VARIATIONS } from "../constants/promptData.js";
+import { AssignmentRegistry } from "./classes/AssignmentRegistry.js";
+import type { CitationCheckResult } from "./classes/CitationChecker.js";
+import type { HintValidationResult } from "./classes/HintValidator.js";
+import type { LeakCheckResult } from "./classes/LeakDetector.js";
 import {
   ModelManager,
   type ModelConfig,
@@ -55,8 +59,8 @@ function parseArgs(): CliArgs {
     | LlmProvider
     | string;
   const models =
-    provider === "openrouter" || provider === "azure"
-      ? MODELS_BY_PROVIDER[provider]
+    provider in MODELS_BY_PROVIDER
+      ? MODELS_BY_PROVIDER[provider as LlmProvider]
       : MODELS_BY_PROVIDER.azure;
 
   const model =
@@ -114,11 +118,17 @@ function defaultConcurrencyForProvider(
 
 function resolveProvider(): LlmProvider {
   const provider = (process.env.LLM_PROVIDER ?? "azure").toLowerCase();
-  if (provider === "azure" || provider === "openrouter") {
+  if (
+    provider === "azure" ||
+    provider === "openrouter" ||
+    provider === "anthropic" ||
+    provider === "local" ||
+    provider === "mock"
+  ) {
     return provider;
   }
   console.error(
-    `Invalid LLM_PROVIDER "${provider}". Use "azure" or "openrouter".`,
+    `Invalid LLM_PROVIDER "${provider}". Use "azure", "openrouter", "anthropic", "local" or "mock".`,
   );
   process.exit(1);
 }
@@ -138,6 +148,44 @@ function validateEnv(provider: LlmProvider): ModelConfig {
       apiVersion: "2025-03-01-preview",
     };
   }
+  if (provider === "anthropic") {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      console.error("ANTHROPIC_API_KEY is required for Anthropic.");
+      process.exit(1);
+    }
+    return { provider, apiKey: process.env.ANTHROPIC_API_KEY };
+  }
+  if (provider === "local") {
+    if (!process.env.LOCAL_LLM_BASE_URL) {
+      console.error("LOCAL_LLM_BASE_URL is required for local models.");
+      process.exit(1);
+    }
+    return {
+      provider,
+      apiKey: process.env.LOCAL_LLM_API_KEY ?? "",
+      endpoint: process.env.LOCAL_LLM_BASE_URL,
+      ...(process.env.LOCAL_LLM_PRICING
+        ? {
+            pricing: JSON.parse(
+              readFileSync(path.resolve(process.env.LOCAL_LLM_PRICING), "utf-8"),
+            ),
+          }
+        : {}),
+    };
+  }
+  if (provider === "mock") {
+    return {
+      provider,
+      apiKey: "",
+      ...(process.env.MOCK_LLM_SCRIPT
+        ? {
+            mock: JSON.parse(
+              readFileSync(path.resolve(process.env.MOCK_LLM_SCRIPT), "utf-8"),
+            ),
+          }
+        : {}),
+    };
+  }
   if (!process.env.OPEN_ROUTER_KEY) {
     console.error("OPEN_ROUTER_KEY is required for OpenRouter.");
     process.exit(1);
@@ -193,6 +241,10 @@ type JsonlRecord =
       hint: string;
       timestamp: string;
       usage?: UsageMetadata;
+      validation: HintValidationResult;
+      leak: LeakCheckResult;
+      citations: CitationCheckResult;
+      attempts: number;
     }
   | {
       kind: "error";
@@ -237,7 +289,9 @@ type JsonlRecord =
   const outDir = path.dirname(args.outputPath);
   mkdirSync(outDir, { recursive: true });
 
-  const promptGenerator = new PromptGenerator();
+  const promptGenerator = new PromptGenerator(
+    new AssignmentRegistry(args.csvPath),
+  );
   const modelManager = new ModelManager(modelConfig, promptGenerator);
 
   console.log(`CSV: ${args.csvPath}`);
@@ -273,6 +327,8 @@ type JsonlRecord =
     }
   }
 
+  await promptGenerator.preloadSpecs(apiRows.map(({ row }) => row));
+
   const apiResults = await runWithConcurrency(
     apiRows,
     args.concurrency,
@@ -293,7 +349,11 @@ type JsonlRecord =
           output: row.output,
           hint: result.hint,
           timestamp: result.timestamp,
-          usage: result.usage,
+          ...(result.usage ? { usage: result.usage } : {}),
+          validation: result.validation,
+          leak: result.leak,
+          citations: result.citations,
+          attempts: result.attempts,
         };
         const label =
           row.name.length > 60 ? `${row.name.slice(0, 60)}…` : row.name;
@@ -1,28 +1,260 @@
 import * as dotenv from "dotenv";
+import { readFileSync } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
-import { MODELS_BY_PROVIDER, type LlmProvider } from "../constants/models.js";
+import {
+  MODEL_FALLBACKS,
+  MODELS_BY_PROVIDER,
+  type LlmProvider,
+  type ModelTarget,
+} from "../constants/models.js";
 import { PROMPT_VARIATIONS } from "../constants/promptData.js";
 import { DATASET } from "../constants/spreadsheets.js";
+import type { BudgetLimits } from "./classes/BudgetGuard.js";
+import {
+  SELECTION_SCORERS,
+  type SamplingConfig,
+  type SelectionScorer,
+} from "./classes/CandidateSelector.js";
 import { FeedBotProcessor } from "./classes/FeedBotProcessor.js";
+import {
+  DEFAULT_REPAIR_CONFIG,
+  type GenerationSettings,
+  type ModelConfig,
+  type ProviderConnection,
+  type RepairConfig,
+  type RequestSettings,
+} from "./classes/ModelManager.js";
+import type { RateLimitConfig } from "./classes/RateLimiter.js";
+import type { ReprocessFilter } from "./classes/ReprocessSelector.js";
+import type { MockScript } from "./classes/providers/MockModelClient.js";
+import type { ModelPricing } from "./classes/providers/pricing.js";
+import type { SpecLoaderOptions } from "./classes/SpecLoader.js";
+import {
+  DEFAULT_SPEC_SLICE_OPTIONS,
+  type SpecSliceOptions,
+} from "./classes/SpecSlicer.js";
+import { OUTPUT_MODES, type OutputMode } from "./classes/StructuredHint.js";
 
 dotenv.config();
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// Value following a flag, exiting when it is missing
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith("--")) {
+    console.error(`Error: ${flag} requires a value`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// --reprocess-* flags; processed rows matching any of them are generated again
+function parseReprocessFilter(args: string[]): ReprocessFilter | undefined {
+  const before = flagValue(args, "--reprocess-before");
+  if (before !== undefined && isNaN(Date.parse(before))) {
+    console.error(`Error: --reprocess-before expects a date, got "${before}"`);
+    process.exit(1);
+  }
+  const promptHash = flagValue(args, "--reprocess-prompt-hash");
+
+  // Comma-separated list, or @file with one fingerprint per line
+  const fingerprintArg = flagValue(args, "--reprocess-fingerprints");
+  const fingerprintList = fingerprintArg?.startsWith("@")
+    ? readFileSync(path.resolve(fingerprintArg.slice(1)), "utf-8")
+    : fingerprintArg;
+  const fingerprints = fingerprintList
+    ?.split(/[,\s]+/)
+    .filter((fingerprint) => fingerprint.length > 0);
+
+  const filter: ReprocessFilter = {
+    ...(args.includes("--reprocess-failed-validation")
+      ? { failedValidation: true }
+      : {}),
+    ...(args.includes("--reprocess-retry") ? { retry: true } : {}),
+    ...(args.includes("--reprocess-empty") ? { emptyHint: true } : {}),
+    ...(before !== undefined ? { before } : {}),
+    ...(promptHash !== undefined ? { promptHash } : {}),
+    ...(fingerprints !== undefined ? { fingerprints } : {}),
+  };
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+function parseUSD(flag: string, value: string): number {
+  const usd = Number(value);
+  if (!Number.isFinite(usd) || usd < 0) {
+    console.error(`Error: ${flag} expects a USD amount, got "${value}"`);
+    process.exit(1);
+  }
+  return usd;
+}
+
+// Budget caps from the JSON file in FEEDBOT_BUDGET, overridden by
+// --budget-run <usd>, --budget-global <usd> and
+// --budget-model <model=usd,...> ("*" for every model)
+function parseBudget(args: string[]): BudgetLimits | undefined {
+  const budgetPath = process.env.FEEDBOT_BUDGET;
+  const budget: BudgetLimits = budgetPath
+    ? JSON.parse(readFileSync(path.resolve(budgetPath), "utf-8"))
+    : {};
+
+  const runUSD = flagValue(args, "--budget-run");
+  if (runUSD !== undefined) {
+    budget.runUSD = parseUSD("--budget-run", runUSD);
+  }
+  const globalUSD = flagValue(args, "--budget-global");
+  if (globalUSD !== undefined) {
+    budget.globalUSD = parseUSD("--budget-global", globalUSD);
+  }
+  const modelCaps = flagValue(args, "--budget-model");
+  if (modelCaps !== undefined) {
+    budget.modelUSD = { ...budget.modelUSD };
+    for (const cap of modelCaps.split(",")) {
+      const separator = cap.lastIndexOf("=");
+      if (separator <= 0) {
+        console.error(
+          `Error: --budget-model expects model=usd pairs, got "${cap}"`,
+        );
+        process.exit(1);
+      }
+      budget.modelUSD[cap.slice(0, separator)] = parseUSD(
+        "--budget-model",
+        cap.slice(separator + 1),
+      );
+    }
+  }
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
+
+// Long enough for a slow completion, short enough that a hung one is retried
+const DEFAULT_REQUEST_TIMEOUT_SECONDS = 120;
+
+// --timeout <seconds>, --max-tokens <n> and --stream
+function parseRequestSettings(args: string[]): RequestSettings {
+  const positive = (flag: string, value: string): number => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      console.error(`Error: ${flag} expects a positive number, got "${value}"`);
+      process.exit(1);
+    }
+    return parsed;
+  };
+  const timeout = flagValue(args, "--timeout");
+  const maxTokens = flagValue(args, "--max-tokens");
+
+  return {
+    timeoutMs:
+      (timeout !== undefined
+        ? positive("--timeout", timeout)
+        : DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000,
+    ...(maxTokens !== undefined
+      ? { maxTokens: Math.round(positive("--max-tokens", maxTokens)) }
+      : {}),
+    ...(args.includes("--stream") ? { stream: true } : {}),
+  };
+}
+
+// --output <prose|json>; json asks for the hint plus diagnosis metadata
+function parseOutputMode(args: string[]): OutputMode {
+  const mode = flagValue(args, "--output") ?? "prose";
+  if (!OUTPUT_MODES.includes(mode as OutputMode)) {
+    console.error(
+      `Error: --output expects one of ${OUTPUT_MODES.join(", ")}, got "${mode}"`,
+    );
+    process.exit(1);
+  }
+  return mode as OutputMode;
+}
+
+// --samples <n> draws n hints per row and keeps the one the scorer picks:
+// --scorer <fewest-violations|shortest-compliant|judge> and, for judge,
+// --judge-model <[provider:]model> (defaults to the row's model)
+function parseSampling(args: string[]): SamplingConfig | undefined {
+  const samplesArg = flagValue(args, "--samples");
+  const scorer = (flagValue(args, "--scorer") ??
+    "fewest-violations") as SelectionScorer;
+  const judgeArg = flagValue(args, "--judge-model");
+
+  const samples = samplesArg !== undefined ? Number(samplesArg) : 1;
+  if (!Number.isInteger(samples) || samples < 1) {
+    console.error(
+      `Error: --samples expects a positive whole number, got "${samplesArg}"`,
+    );
+    process.exit(1);
+  }
+  if (!SELECTION_SCORERS.includes(scorer)) {
+    console.error(
+      `Error: --scorer expects one of ${SELECTION_SCORERS.join(", ")}, got "${scorer}"`,
+    );
+    process.exit(1);
+  }
+  let judge: ModelTarget | undefined;
+  if (judgeArg !== undefined) {
+    const separator = judgeArg.indexOf(":");
+    const judgeProvider = judgeArg.slice(0, separator) as LlmProvider;
+    judge =
+      separator > 0 && PROVIDERS.includes(judgeProvider)
+        ? { provider: judgeProvider, model: judgeArg.slice(separator + 1) }
+        : { model: judgeArg };
+  }
+  if (samples === 1) {
+    if (args.includes("--scorer") || judge) {
+      console.warn("--scorer and --judge-model only apply with --samples > 1");
+    }
+    return undefined;
+  }
+  return { samples, scorer, ...(judge ? { judge } : {}) };
+}
+
 // Parse CLI arguments
 function parseArgs(): {
   limit?: number;
   trackCosts: boolean;
   concurrency?: number;
+  repair: RepairConfig;
+  spec: SpecLoaderOptions;
+  specSlicing?: SpecSliceOptions;
+  runId?: string;
+  reprocess?: ReprocessFilter;
+  budget?: BudgetLimits;
+  request: RequestSettings;
+  outputMode: OutputMode;
+  sampling?: SamplingConfig;
+  fallback: FallbackScope;
+  dryRun: boolean;
+  promptsDir?: string;
 } {
   const args = process.argv.slice(2);
   const limitIndex = args.indexOf("--limit");
   const concurrencyIndex = args.indexOf("--concurrency");
+  const maxAttemptsIndex = args.indexOf("--max-attempts");
+  const sliceSpecIndex = args.indexOf("--slice-spec");
+  const resumeIndex = args.indexOf("--resume");
+  const writePromptsIndex = args.indexOf("--write-prompts");
   const trackCosts = args.includes("--track-costs");
+  const spec: SpecLoaderOptions = {
+    offline: args.includes("--offline"),
+    allowMissing: args.includes("--allow-missing-spec"),
+  };
+  const repair: RepairConfig = {
+    ...DEFAULT_REPAIR_CONFIG,
+    includeFeedback: !args.includes("--no-repair-feedback"),
+  };
 
   let limit: number | undefined;
   let concurrency: number | undefined;
+  let specSlicing: SpecSliceOptions | undefined;
+  let runId: string | undefined;
+  let promptsDir: string | undefined;
+  const reprocess = parseReprocessFilter(args);
+  const budget = parseBudget(args);
+  const request = parseRequestSettings(args);
+  const sampling = parseSampling(args);
 
   if (limitIndex !== -1 && args[limitIndex + 1]) {
     const parsedLimit = parseInt(args[limitIndex + 1]!, 10);
@@ -38,70 +270,333 @@ function parseArgs(): {
     }
   }
 
+  if (maxAttemptsIndex !== -1 && args[maxAttemptsIndex + 1]) {
+    const parsedMaxAttempts = parseInt(args[maxAttemptsIndex + 1]!, 10);
+    if (!isNaN(parsedMaxAttempts) && parsedMaxAttempts > 0) {
+      repair.maxAttempts = parsedMaxAttempts;
+    }
+  }
+
+  // --slice-spec [tokenBudget]
+  if (sliceSpecIndex !== -1) {
+    const parsedBudget = parseInt(args[sliceSpecIndex + 1] ?? "", 10);
+    specSlicing = {
+      ...DEFAULT_SPEC_SLICE_OPTIONS,
+      ...(!isNaN(parsedBudget) && parsedBudget > 0
+        ? { tokenBudget: parsedBudget }
+        : {}),
+    };
+  }
+
+  // --resume <runId> continues an earlier run under the same manifest
+  if (resumeIndex !== -1) {
+    runId = args[resumeIndex + 1];
+    if (!runId || runId.startsWith("--")) {
+      console.error("Error: --resume requires a run id");
+      process.exit(1);
+    }
+  }
+
+  // --write-prompts [dir] saves the rendered prompts of a dry run
+  if (writePromptsIndex !== -1) {
+    const dir = args[writePromptsIndex + 1];
+    promptsDir =
+      dir && !dir.startsWith("--")
+        ? path.resolve(dir)
+        : path.join(__dirname, "../feedbotOutput/prompts");
+  }
+  const dryRun = args.includes("--dry-run") || promptsDir !== undefined;
+
   return {
     ...(limit !== undefined ? { limit } : {}),
+    ...(runId !== undefined ? { runId } : {}),
+    ...(reprocess !== undefined ? { reprocess } : {}),
+    ...(budget !== undefined ? { budget } : {}),
+    ...(specSlicing !== undefined ? { specSlicing } : {}),
+    ...(sampling !== undefined ? { sampling } : {}),
+    ...(promptsDir !== undefined ? { promptsDir } : {}),
+    dryRun,
     ...(concurrency !== undefined ? { concurrency } : {}),
     trackCosts,
+    repair,
+    request,
+    outputMode: parseOutputMode(args),
+    fallback: args.includes("--fallback-cross-provider")
+      ? "cross-provider"
+      : args.includes("--fallback")
+        ? "same-provider"
+        : "off",
+    spec,
   };
 }
 
+const PROVIDERS: LlmProvider[] = [
+  "azure",
+  "openrouter",
+  "anthropic",
+  "local",
+  "mock",
+];
+
 function resolveProvider(): LlmProvider {
   const provider = (process.env.LLM_PROVIDER ?? "azure").toLowerCase();
-  if (provider === "azure" || provider === "openrouter") {
-    return provider;
+  const known = PROVIDERS.find((p) => p === provider);
+  if (known) {
+    return known;
   }
 
   console.error(
-    `Error: Invalid LLM_PROVIDER \"${provider}\". Use \"azure\" or \"openrouter\".`,
+    `Error: Invalid LLM_PROVIDER \"${provider}\". Use one of: ${PROVIDERS.join(", ")}.`,
   );
   process.exit(1);
 }
 
+// Optional JSON script of canned responses and injected faults for the mock provider
+function loadMockScript(): MockScript {
+  const scriptPath = process.env.MOCK_LLM_SCRIPT;
+  if (!scriptPath) {
+    return {};
+  }
+  return JSON.parse(readFileSync(path.resolve(scriptPath), "utf-8"));
+}
+
+// Optional JSON price table for local models, merged over MODEL_PRICING
+function loadLocalPricing(): Record<string, ModelPricing> {
+  const pricingPath = process.env.LOCAL_LLM_PRICING;
+  if (!pricingPath) {
+    return {};
+  }
+  return JSON.parse(readFileSync(path.resolve(pricingPath), "utf-8"));
+}
+
+// Optional JSON file of generation profiles ({ models, variations }),
+// merged over MODEL_GENERATION_PROFILES and PROMPT_GENERATION_OVERRIDES
+function loadGenerationSettings(): GenerationSettings | undefined {
+  const settingsPath = process.env.FEEDBOT_GENERATION;
+  if (!settingsPath) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path.resolve(settingsPath), "utf-8"));
+}
+
+// What each provider needs in the environment
+const CREDENTIAL_ERRORS: Record<LlmProvider, string> = {
+  azure:
+    "AZURE_OPENAI_KEY and AZURE_OPENAI_ENDPOINT environment variables are required",
+  openrouter: "OPEN_ROUTER_KEY environment variable is required for OpenRouter",
+  anthropic: "ANTHROPIC_API_KEY environment variable is required for Anthropic",
+  local:
+    "LOCAL_LLM_BASE_URL environment variable is required for local models (e.g. http://localhost:11434/v1)",
+  mock: "",
+};
+
+/**
+ * A provider's credentials from the environment, or undefined when missing
+ */
+function buildConnection(
+  provider: LlmProvider,
+  trackCosts: boolean,
+): ProviderConnection | undefined {
+  switch (provider) {
+    case "azure":
+      if (!process.env.AZURE_OPENAI_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+        return undefined;
+      }
+      return {
+        provider,
+        apiKey: process.env.AZURE_OPENAI_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: "2025-03-01-preview",
+      };
+
+    case "openrouter":
+      if (!process.env.OPEN_ROUTER_KEY) {
+        return undefined;
+      }
+      return {
+        provider,
+        apiKey: process.env.OPEN_ROUTER_KEY,
+        fetchCosts: trackCosts,
+      };
+
+    case "anthropic":
+      if (!process.env.ANTHROPIC_API_KEY) {
+        return undefined;
+      }
+      return { provider, apiKey: process.env.ANTHROPIC_API_KEY };
+
+    case "local":
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        return undefined;
+      }
+      return {
+        provider,
+        apiKey: process.env.LOCAL_LLM_API_KEY ?? "",
+        endpoint: process.env.LOCAL_LLM_BASE_URL,
+        pricing: loadLocalPricing(),
+      };
+
+    case "mock":
+      return { provider, apiKey: "", mock: loadMockScript() };
+  }
+}
+
+/**
+ * Validate environment variables and build the provider config
+ */
+function buildModelConfig(
+  provider: LlmProvider,
+  trackCosts: boolean,
+  repair: RepairConfig,
+): ModelConfig {
+  const connection = buildConnection(provider, trackCosts);
+  if (!connection) {
+    console.error(`Error: ${CREDENTIAL_ERRORS[provider]}`);
+    process.exit(1);
+  }
+  return { ...connection, repair };
+}
+
+// off: the default. --fallback allows fallbacks on the run's provider;
+// --fallback-cross-provider also lets rows go to another provider and key.
+type FallbackScope = "off" | "same-provider" | "cross-provider";
+
+/**
+ * MODEL_FALLBACKS for the run's models, with the connections they need.
+ * Fallbacks on another provider are left out unless the scope allows them
+ * and the provider has credentials.
+ */
+function buildFallbacks(
+  provider: LlmProvider,
+  models: string[],
+  scope: FallbackScope,
+  trackCosts: boolean,
+): Pick<ModelConfig, "fallbacks" | "connections"> {
+  const connections = new Map<LlmProvider, ProviderConnection | undefined>();
+  const fallbacks: Record<string, ModelTarget[]> = {};
+
+  for (const model of models) {
+    const chain = (MODEL_FALLBACKS[model] ?? []).filter((target) => {
+      const targetProvider = target.provider ?? provider;
+      if (targetProvider === provider) {
+        return true;
+      }
+      if (scope !== "cross-provider") {
+        console.warn(
+          `Skipping fallback ${targetProvider}:${target.model} for ${model}: it is on another provider; pass --fallback-cross-provider to allow it`,
+        );
+        return false;
+      }
+      if (!connections.has(targetProvider)) {
+        connections.set(
+          targetProvider,
+          buildConnection(targetProvider, trackCosts),
+        );
+      }
+      if (!connections.get(targetProvider)) {
+        console.warn(
+          `Skipping fallback ${targetProvider}:${target.model} for ${model}: ${CREDENTIAL_ERRORS[targetProvider]}`,
+        );
+        return false;
+      }
+      return true;
+    });
+    if (chain.length > 0) {
+      fallbacks[model] = chain;
+    }
+  }
+
+  const available = [...connections.values()].filter(
+    (connection): connection is ProviderConnection => connection !== undefined,
+  );
+  return {
+    ...(Object.keys(fallbacks).length > 0 ? { fallbacks } : {}),
+    ...(available.length > 0 ? { connections: available } : {}),
+  };
+}
+
+// Rate limits per provider. These are starting points: each limiter halves
+// its concurrency when throttled, waits out Retry-After and x-ratelimit-reset,
+// and grows back while requests succeed.
+// Azure: strict quotas, so a request rate cap and little concurrency
+// OpenRouter: generous limits, concurrency only
+// Anthropic: modest concurrency so the first request warms the prompt cache
+// Local: one request at a time, the server is usually a single GPU
+// Mock: moderate concurrency to exercise the worker pool
+const PROVIDER_RATE_LIMITS: Record<LlmProvider, RateLimitConfig> = {
+  azure: { maxConcurrency: 2, requestsPerMinute: 30 },
+  openrouter: { maxConcurrency: 8 },
+  anthropic: { maxConcurrency: 4, requestsPerMinute: 50 },
+  local: { maxConcurrency: 1 },
+  mock: { maxConcurrency: 4 },
+};
+
 // Main entry point
 (async () => {
-  const { limit, trackCosts, concurrency } = parseArgs();
+  const {
+    limit,
+    trackCosts,
+    concurrency,
+    repair,
+    spec,
+    specSlicing,
+    runId,
+    reprocess,
+    budget,
+    request,
+    outputMode,
+    sampling,
+    fallback,
+    dryRun,
+    promptsDir,
+  } = parseArgs();
   const provider = resolveProvider();
 
-  // Validate environment variables
-  if (provider === "azure") {
-    if (!process.env.AZURE_OPENAI_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
-      console.error(
-        "Error: AZURE_OPENAI_KEY and AZURE_OPENAI_ENDPOINT environment variables are required",
-      );
-      process.exit(1);
-    }
-  } else {
-    if (!process.env.OPEN_ROUTER_KEY) {
+  const models = MODELS_BY_PROVIDER[provider];
+  const generation = loadGenerationSettings();
+  // A dry run never calls the provider, so it needs no credentials
+  const modelConfig: ModelConfig = {
+    ...(dryRun
+      ? {
+          provider,
+          apiKey: "",
+          repair,
+          ...(provider === "local" ? { pricing: loadLocalPricing() } : {}),
+        }
+      : buildModelConfig(provider, trackCosts, repair)),
+    // A dry run only estimates the primary models
+    ...(fallback !== "off" && !dryRun
+      ? buildFallbacks(provider, models, fallback, trackCosts)
+      : {}),
+    rateLimit: {
+      ...PROVIDER_RATE_LIMITS[provider],
+      ...(concurrency !== undefined ? { maxConcurrency: concurrency } : {}),
+    },
+    request,
+    ...(generation ? { generation } : {}),
+    ...(sampling ? { sampling } : {}),
+  };
+
+  // A judge on another provider needs that provider's credentials too
+  const judgeProvider = sampling?.judge?.provider;
+  if (
+    !dryRun &&
+    judgeProvider !== undefined &&
+    judgeProvider !== provider &&
+    !modelConfig.connections?.some(
+      (connection) => connection.provider === judgeProvider,
+    )
+  ) {
+    const connection = buildConnection(judgeProvider, trackCosts);
+    if (!connection) {
       console.error(
-        "Error: OPEN_ROUTER_KEY environment variable is required for OpenRouter",
+        `Error: --judge-model ${judgeProvider}:${sampling!.judge!.model}: ${CREDENTIAL_ERRORS[judgeProvider]}`,
       );
       process.exit(1);
     }
+    modelConfig.connections = [...(modelConfig.connections ?? []), connection];
   }
 
-  const models = MODELS_BY_PROVIDER[provider];
-  const modelConfig =
-    provider === "azure"
-      ? {
-          provider,
-          apiKey: process.env.AZURE_OPENAI_KEY!,
-          endpoint: process.env.AZURE_OPENAI_ENDPOINT!,
-          apiVersion: "2025-03-01-preview",
-        }
-      : {
-          provider,
-          apiKey: process.env.OPEN_ROUTER_KEY!,
-          fetchCosts: trackCosts,
-        };
-
-  // Set delays based on provider
-  // OpenRouter: no delays needed (generous rate limits)
-  // Azure: 2s between requests, 5s between combinations (strict rate limits)
-  const defaults =
-    provider === "openrouter"
-      ? { delayMs: 0, delayBetweenCombinationsMs: 0, concurrency: 8 }
-      : { delayMs: 2000, delayBetweenCombinationsMs: 5000, concurrency: 1 };
-
   // Configure the processor
   const processor = new FeedBotProcessor({
     csvPath: path.join(__dirname, DATASET),
@@ -109,11 +604,32 @@ function resolveProvider(): LlmProvider {
     models,
     promptVariations: PROMPT_VARIATIONS,
     modelConfig,
-    ...defaults,
-    ...(concurrency !== undefined ? { concurrency } : {}),
+    spec,
+    ...(specSlicing !== undefined ? { specSlicing } : {}),
     ...(limit !== undefined ? { limit } : {}),
+    ...(runId !== undefined ? { runId } : {}),
+    ...(reprocess !== undefined ? { reprocess } : {}),
+    ...(budget !== undefined ? { budget } : {}),
+    outputMode,
+  });
+
+  if (dryRun) {
+    await processor.dryRun(promptsDir !== undefined ? { promptsDir } : {});
+    return;
+  }
+
+  // First Ctrl-C cancels in-flight requests and lets the run save its state;
+  // a second one exits immediately
+  process.on("SIGINT", () => {
+    if (processor.cancelled) {
+      process.exit(130);
+    }
+    processor.cancel();
   });
 
   // Run the processor
   await processor.run();
+  if (processor.cancelled) {
+    process.exitCode = 130;
+  }
 })();
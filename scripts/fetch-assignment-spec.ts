@@ -1,42 +1,64 @@
-export const fetchAssignmentSpec = async (specUrl: string) => {
+/**
+ * Cache validators from a previous fetch, sent as conditional request headers
+ */
+export interface SpecValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type SpecFetchResult =
+  | { notModified: true }
+  | { notModified: false; text: string; validators: SpecValidators };
+
+/**
+ * Fetch a spec over HTTP. Throws on network errors, timeouts and non-2xx
+ * responses; callers decide whether a cached copy can stand in.
+ */
+export const fetchAssignmentSpec = async (
+  specUrl: string,
+  validators: SpecValidators = {},
+): Promise<SpecFetchResult> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 10_000);
+  const headers: Record<string, string> = {};
+  if (validators.etag) {
+    headers["If-None-Match"] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+
   try {
-    const response = await fetch(specUrl);
+    const response = await fetch(specUrl, {
+      headers,
+      signal: controller.signal,
+    });
+    if (response.status === 304) {
+      return { notModified: true };
+    }
     if (!response.ok) {
       throw new Error(`HTTP ${response.status} ${response.statusText}`);
     }
-    const text = await response.text();
-    const preview = text.slice(0, 80).replace(/\s+/g, " ");
-    console.log(
-      "visible",
-      `FeedBot spec_url loaded, first chars: "${preview}..."`,
-    );
-    return text;
+
+    const etag = response.headers.get("etag");
+    const lastModified = response.headers.get("last-modified");
+    return {
+      notModified: false,
+      text: await response.text(),
+      validators: {
+        ...(etag ? { etag } : {}),
+        ...(lastModified ? { lastModified } : {}),
+      },
+    };
   } catch (err) {
-    const isTimeout =
-      (err instanceof Error && err.name === "AbortError") ||
-      (typeof err === "object" &&
-        err !== null &&
-        "name" in err &&
-        err.name === "AbortError");
-    const reason = isTimeout
-      ? "Timed out after 10 seconds"
-      : err instanceof Error
-        ? err.message
-        : "Unknown error fetching spec_url";
-    console.log(
-      "visible",
-      `FeedBot configuration error: could not fetch spec_url '${specUrl}': ${reason}. FeedBot will be disabled for this run.`,
-    );
+    const reason =
+      err instanceof Error && err.name === "AbortError"
+        ? "Timed out after 10 seconds"
+        : err instanceof Error
+          ? err.message
+          : "Unknown error";
+    throw new Error(`Could not fetch spec '${specUrl}': ${reason}`);
   } finally {
     clearTimeout(timeoutId);
   }
 };
-
-// (async () => {
-//   const assignmentSpecUrl =
-//     "https://raw.githubusercontent.com/neu-pdi/cs3100-public-resources/refs/heads/main/assignments/cyb1-recipes.md";
-//   const res = await fetchAssignmentSpec(assignmentSpecUrl);
-//   console.log("\nFetched assignment spec content length:", res?.length);
-// })();
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Import existing JSON results into the SQLite results store
+ * Reads the dataset rows, run manifests (feedbotOutput/runs/*.json), every
+ * feedbot_progress_*.json file under feedbotOutput (including dated folders
+ * and the legacy feedbot_progress_<model>_<prompt>.json naming) and the JSON
+ * cost ledgers. Safe to run more than once: a stored result is only replaced
+ * by a newer one (older hints are kept as history), and results and cost
+ * entries imported before are skipped.
+ *
+ * Usage: npm run results:import [-- --dataset <csv>]
+ */
+
+import { parse } from "csv-parse/sync";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { DATASET } from "../constants/spreadsheets.js";
+import {
+  LEGACY_LEDGER_FILES,
+  type CostLedgerData,
+} from "./classes/OpenRouterCostLedger.js";
+import {
+  discoverProgressFiles,
+  readProgressState,
+} from "./classes/ProgressFiles.js";
+import {
+  normalizeEvaluationRow,
+  type RawEvaluationRow,
+} from "./classes/PromptGenerator.js";
+import { ResultsStore } from "./classes/ResultsStore.js";
+import type { RunManifest } from "./classes/RunManifest.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function main(): Promise<void> {
+  const outputDir = path.join(__dirname, "../feedbotOutput");
+  const args = process.argv.slice(2);
+  const datasetIndex = args.indexOf("--dataset");
+  const datasetPath =
+    datasetIndex !== -1 && args[datasetIndex + 1]
+      ? path.resolve(args[datasetIndex + 1]!)
+      : path.join(__dirname, DATASET);
+
+  const store = new ResultsStore();
+  console.log(`Importing into ${store.dbPath}\n`);
+
+  // Rows give the reports their error metadata
+  if (existsSync(datasetPath)) {
+    const rows = (
+      parse(readFileSync(datasetPath, "utf-8"), {
+        columns: true,
+        skip_empty_lines: true,
+      }) as RawEvaluationRow[]
+    ).map((row) => normalizeEvaluationRow(row));
+    store.upsertRows(rows, datasetPath);
+    console.log(`Dataset rows: ${rows.length} from ${datasetPath}`);
+  } else {
+    console.warn(`Dataset not found, skipping rows: ${datasetPath}`);
+  }
+
+  const runsDir = path.join(outputDir, "runs");
+  const manifestFiles = existsSync(runsDir)
+    ? readdirSync(runsDir).filter((file) => file.endsWith(".json"))
+    : [];
+  for (const file of manifestFiles) {
+    const manifest = JSON.parse(
+      readFileSync(path.join(runsDir, file), "utf-8"),
+    ) as RunManifest;
+    store.saveRun(manifest);
+  }
+  console.log(`Run manifests: ${manifestFiles.length}`);
+
+  const progressFiles = discoverProgressFiles(outputDir);
+  let imported = 0;
+  let kept = 0;
+  for (const { model, promptVariation, filePath } of progressFiles) {
+    const source = path.relative(outputDir, filePath);
+    let state;
+    try {
+      state = readProgressState(filePath);
+    } catch (error) {
+      console.warn(
+        `Skipping unreadable ${source}: ${error instanceof Error ? error.message : error}`,
+      );
+      continue;
+    }
+
+    const combination = { model, promptVariation };
+    store.transaction(() => {
+      for (const [fingerprint, entry] of Object.entries(state.processed)) {
+        const written = store.importResult(
+          combination,
+          fingerprint,
+          { status: "processed", entry },
+          source,
+        );
+        written ? imported++ : kept++;
+      }
+      for (const [fingerprint, entry] of Object.entries(state.failed ?? {})) {
+        const written = store.importResult(
+          combination,
+          fingerprint,
+          { status: "failed", entry },
+          source,
+        );
+        written ? imported++ : kept++;
+      }
+    });
+  }
+  console.log(
+    `Progress files: ${progressFiles.length} (${imported} results imported, ${kept} already stored or superseded)`,
+  );
+
+  for (const [ledger, file] of Object.entries(LEGACY_LEDGER_FILES)) {
+    const ledgerPath = path.join(outputDir, file);
+    if (!existsSync(ledgerPath)) {
+      continue;
+    }
+    const data = JSON.parse(
+      readFileSync(ledgerPath, "utf-8"),
+    ) as CostLedgerData;
+    const added = store.transaction(
+      () =>
+        data.entries.filter((entry) => store.importCost(ledger, entry)).length,
+    );
+    console.log(
+      `Cost ledger ${file}: ${added} of ${data.entries.length} entries imported`,
+    );
+  }
+
+  store.close();
+  console.log("\n✅ Import complete");
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
@@ -5,18 +5,27 @@
  *   npm run ledger:view     - Display the cost ledger report
  *   npm run ledger:csv      - Export cost ledger as CSV
  *   npm run ledger:reset    - Reset the cost ledger (for testing)
+ *
+ * Add `-- --anthropic` to any command to use the Anthropic ledger instead.
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
-import { OpenRouterCostLedger } from "./classes/OpenRouterCostLedger.js";
+import {
+  ANTHROPIC_LEDGER,
+  OPENROUTER_LEDGER,
+  OpenRouterCostLedger,
+} from "./classes/OpenRouterCostLedger.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 async function main(): Promise<void> {
   const command = process.argv[2] || "view";
-  const ledger = new OpenRouterCostLedger();
+  const anthropic = process.argv.includes("--anthropic");
+  const ledger = new OpenRouterCostLedger(
+    anthropic ? ANTHROPIC_LEDGER : OPENROUTER_LEDGER,
+  );
 
   switch (command) {
     case "view":
@@ -27,7 +36,9 @@ async function main(): Promise<void> {
       const csv = ledger.getAsCSV();
       const outputPath = path.join(
         __dirname,
-        "../feedbotOutput/openrouter_cost_ledger.csv",
+        anthropic
+          ? "../feedbotOutput/anthropic_cost_ledger.csv"
+          : "../feedbotOutput/openrouter_cost_ledger.csv",
       );
       fs.writeFileSync(outputPath, csv, "utf-8");
       console.log(`✅ Cost ledger exported to ${outputPath}`);
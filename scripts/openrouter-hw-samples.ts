@@ -5,11 +5,15 @@ import { mkdirSync, readFileSync, writeFileSync } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { OPENROUTER_MODELS } from "../constants/models.js";
-import {
-  BASE_PROMPT,
-  CHAIN_OF_THOUGHT_PROMPT,
-} from "../constants/promptData.js";
 import { DATASET } from "../constants/spreadsheets.js";
+import { AssignmentRegistry } from "./classes/AssignmentRegistry.js";
+import { resolveGenerationParams } from "./classes/ModelManager.js";
+import {
+  normalizeEvaluationRow,
+  PromptGenerator,
+  toChatMessages,
+  type EvaluationRow,
+} from "./classes/PromptGenerator.js";
 import { OpenRouterModelClient } from "./classes/providers/OpenRouterModelClient.js";
 
 dotenv.config();
@@ -24,14 +28,10 @@ function formatRunFolder(d: Date): string {
   return `${mm}${dd}${yyyy}-${suffix}`;
 }
 
-type HwSampleRow = {
-  name: string;
-  output: string;
-};
-
 type CliArgs = {
   datasetPath: string;
   model: string;
+  promptVariation: string;
   concurrency: number;
   limit?: number;
   outputDir: string;
@@ -40,13 +40,10 @@ type CliArgs = {
   dumpIndex?: number;
 };
 
-function toText(value: unknown): string {
-  return typeof value === "string" ? value : value == null ? "" : String(value);
-}
-
 function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
   const modelIdx = args.indexOf("--model");
+  const promptIdx = args.indexOf("--prompt");
   const concIdx = args.indexOf("--concurrency");
   const limitIdx = args.indexOf("--limit");
   const outIdx = args.indexOf("--out-dir");
@@ -59,6 +56,10 @@ function parseArgs(): CliArgs {
     modelIdx !== -1 && args[modelIdx + 1]
       ? args[modelIdx + 1]!
       : OPENROUTER_MODELS[0]!;
+  const promptVariation =
+    promptIdx !== -1 && args[promptIdx + 1]
+      ? args[promptIdx + 1]!
+      : "chain-of-thought";
 
   let concurrency = 8;
   if (concIdx !== -1 && args[concIdx + 1]) {
@@ -92,6 +93,7 @@ function parseArgs(): CliArgs {
   return {
     datasetPath,
     model,
+    promptVariation,
     concurrency,
     ...(limit !== undefined ? { limit } : {}),
     outputDir,
@@ -148,10 +150,6 @@ function fencedTextBlock(body: string): string {
   return `${fence}text\n${body}\n${fence}`;
 }
 
-function buildUserTail(unitName: string, errorOutput: string): string {
-  return `}\n\nError output / failing test output:\n\n${errorOutput}\n\nUnit name: ${unitName}`;
-}
-
 function buildMarkdown(
   results: Array<{
     rowIndex: number;
@@ -218,10 +216,12 @@ function buildMarkdown(
     }
   }
 
-  const rows: HwSampleRow[] = rawRows.map((r) => ({
-    name: toText(r.name).trim(),
-    output: toText(r.output),
-  }));
+  const rows: EvaluationRow[] = rawRows.map((r) => normalizeEvaluationRow(r));
+  const promptGenerator = new PromptGenerator(
+    new AssignmentRegistry(args.datasetPath),
+  );
+  const strategy = promptGenerator.getStrategy(args.promptVariation);
+  const generation = resolveGenerationParams(args.model, args.promptVariation);
 
   const toProcess = args.limit ? rows.slice(0, args.limit) : rows;
   mkdirSync(args.outputDir, { recursive: true });
@@ -252,6 +252,10 @@ function buildMarkdown(
   console.log(`Dataset: ${args.datasetPath}`);
   console.log(`Rows: ${toProcess.length} (of ${rows.length})`);
   console.log(`Model: ${args.model}`);
+  console.log(
+    `Prompt: ${args.promptVariation}${strategy.reconstructed ? " (reconstructed)" : ""}`,
+  );
+  console.log(`Generation: ${JSON.stringify(generation)}`);
   console.log(`Concurrency: ${args.concurrency}`);
   console.log(`JSONL: ${jsonlPath}`);
   console.log(`JSON: ${jsonPath}`);
@@ -264,19 +268,16 @@ function buildMarkdown(
   }
   console.log("---\n");
 
-  const systemPrompt = `${BASE_PROMPT}\n${CHAIN_OF_THOUGHT_PROMPT}`.trim();
+  await promptGenerator.preloadSpecs(toProcess);
 
   const results = await runWithConcurrency(
     toProcess,
     args.concurrency,
     async (row, rowIndex) => {
       const unitName = row.name;
-      const errorOutput = row.output ?? "";
-      const userTail = buildUserTail(unitName, errorOutput);
-      const messages = [
-        { role: "system" as const, content: systemPrompt },
-        { role: "user" as const, content: userTail },
-      ];
+      const errorOutput = row.output;
+      const prompt = await promptGenerator.generate(row, args.promptVariation);
+      const messages = toChatMessages(prompt);
 
       if (
         args.dumpPrompt &&
@@ -286,17 +287,17 @@ function buildMarkdown(
           `=== rowIndex: ${rowIndex} ===`,
           "",
           "=== system ===",
-          systemPrompt,
+          prompt.system,
           "",
           "=== user ===",
-          userTail,
+          prompt.user,
           "",
         ].join("\n");
         writeFileSync(promptDebugPath, debugText, "utf-8");
         writeFileSync(runPromptDebugPath, debugText, "utf-8");
       }
       try {
-        const res = await client.process(args.model, messages, 0.2);
+        const res = await client.process(args.model, messages, generation);
         return {
           kind: "ok" as const,
           rowIndex,
@@ -304,6 +305,9 @@ function buildMarkdown(
           errorOutput,
           response: res.content ?? "",
           usage: res.usage,
+          generation,
+          promptVersion: strategy.version,
+          promptReconstructed: strategy.reconstructed,
         };
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
@@ -16,59 +16,54 @@ function isStudentTestFailure(errorMsg: string): boolean {
   );
 }
 
+// Matches the JUnit assertion message: expected:<...> but was:<...>
+export const ASSERTION_VALUES_PATTERN =
+  /expected:\s*<([^>]+)>\s+but\s+was:\s*<([^>]+)>/i;
+
+// Pull the raw expected/actual values out of an assertion message
+export function extractAssertionValues(
+  errorMsg: string,
+): { expected: string; actual: string } | null {
+  const match = errorMsg.match(ASSERTION_VALUES_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    expected: (match[1] ?? "").replace(/\s+/g, " ").trim(),
+    actual: (match[2] ?? "").replace(/\s+/g, " ").trim(),
+  };
+}
+
+function normalizeAssertionValue(value: string): string {
+  return (
+    value
+      // Normalize decimal formatting (1.0 -> 1, but keep 1.5)
+      .replace(/\b(\d+)\.0+\b/g, "$1")
+      // Normalize scientific notation and very long numbers
+      .replace(/\d+\.\d+E\d+/gi, "LARGE_NUM")
+      .replace(/\d{15,}/g, "LARGE_NUM")
+  );
+}
+
 // Extract and normalize assertion from a test failure message
 function extractNormalizedAssertion(errorMsg: string): string {
+  const assertion = extractAssertionValues(errorMsg);
+
   // First check for the generic "Your tests failed against instructor's solution"
   if (
     errorMsg.includes("Your tests failed against the instructor's solution")
   ) {
     // Still extract the actual assertion if present
-    const match = errorMsg.match(
-      /expected:\s*<([^>]+)>\s+but\s+was:\s*<([^>]+)>/i,
-    );
-    if (match) {
-      let expected = match[1]?.replace(/\s+/g, " ").trim();
-      let actual = match[2]?.replace(/\s+/g, " ").trim();
-
-      // Normalize decimal formatting (1.0 -> 1, but keep 1.5)
-      expected = expected.replace(/\b(\d+)\.0+\b/g, "$1");
-      actual = actual.replace(/\b(\d+)\.0+\b/g, "$1");
-
-      // Normalize scientific notation and very long numbers
-      expected = expected
-        .replace(/\d+\.\d+E\d+/gi, "LARGE_NUM")
-        .replace(/\d{15,}/g, "LARGE_NUM");
-      actual = actual
-        .replace(/\d+\.\d+E\d+/gi, "LARGE_NUM")
-        .replace(/\d{15,}/g, "LARGE_NUM");
-
-      return `expected:<${expected}> but was:<${actual}>`;
+    if (assertion) {
+      return `expected:<${normalizeAssertionValue(assertion.expected)}> but was:<${normalizeAssertionValue(assertion.actual)}>`;
     }
     // No specific assertion found, group all "tests failed" together
     return "tests_failed_against_instructor_solution";
   }
 
   // Try to find a line like: expected:<...> but was:<...>
-  const match = errorMsg.match(
-    /expected:\s*<([^>]+)>\s+but\s+was:\s*<([^>]+)>/i,
-  );
-  if (match) {
-    let expected = match[1].replace(/\s+/g, " ").trim();
-    let actual = match[2]?.replace(/\s+/g, " ").trim();
-
-    // Normalize decimal formatting
-    expected = expected.replace(/\b(\d+)\.0+\b/g, "$1");
-    actual = actual?.replace(/\b(\d+)\.0+\b/g, "$1");
-
-    // Normalize scientific notation and very long numbers
-    expected = expected
-      .replace(/\d+\.\d+E\d+/gi, "LARGE_NUM")
-      .replace(/\d{15,}/g, "LARGE_NUM");
-    actual = actual
-      .replace(/\d+\.\d+E\d+/gi, "LARGE_NUM")
-      .replace(/\d{15,}/g, "LARGE_NUM");
-
-    return `expected:<${expected}> but was:<${actual}>`;
+  if (assertion) {
+    return `expected:<${normalizeAssertionValue(assertion.expected)}> but was:<${normalizeAssertionValue(assertion.actual)}>`;
   }
 
   // Check for specific test method failures (these should be grouped separately)
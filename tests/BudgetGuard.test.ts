@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BudgetGuard } from "../scripts/classes/BudgetGuard.js";
+import type { ModelPricing } from "../scripts/classes/providers/pricing.js";
+
+const PRICING: Record<string, ModelPricing> = {
+  "priced/model": { inputPerMillionUSD: 1_000_000, outputPerMillionUSD: 0 },
+  "priced/fallback": { inputPerMillionUSD: 2_000_000, outputPerMillionUSD: 0 },
+};
+
+function guard(limits: ConstructorParameters<typeof BudgetGuard>[0]) {
+  return new BudgetGuard(limits, (model) => PRICING[model]);
+}
+
+describe("BudgetGuard", () => {
+  it("prefers a reported cost and prices the model that answered", () => {
+    const budget = guard({});
+    assert.equal(budget.record("priced/model", { costUSD: 0.5 }), 0.5);
+    assert.equal(budget.record("priced/model", { promptTokens: 1 }), 1);
+    assert.equal(
+      budget.record(
+        "priced/model",
+        { promptTokens: 1 },
+        true,
+        "priced/fallback",
+      ),
+      2,
+    );
+    assert.equal(budget.record("unpriced/model", { promptTokens: 1 }), 0);
+    assert.equal(budget.getRunSpend(), 3.5);
+  });
+
+  it("counts other runs only towards the global cap", () => {
+    const budget = guard({ runUSD: 2, globalUSD: 3 });
+    budget.record("priced/model", { costUSD: 2 }, false);
+    assert.equal(budget.check("priced/model"), undefined);
+
+    budget.record("priced/model", { costUSD: 1 });
+    assert.equal(budget.check("priced/model")?.scope, "global");
+  });
+
+  it("stops the run once its total reaches the run cap", () => {
+    const budget = guard({ runUSD: 1 });
+    budget.record("priced/model", { costUSD: 0.5 });
+    budget.record("other/model", { costUSD: 0.5 });
+    assert.equal(budget.check("priced/model")?.scope, "run");
+  });
+
+  it("stops a model at its own cap or the default one", () => {
+    const budget = guard({ modelUSD: { "priced/model": 1, "*": 2 } });
+    budget.record("priced/model", { costUSD: 1 });
+    budget.record("other/model", { costUSD: 1 });
+
+    assert.deepEqual(budget.check("priced/model"), {
+      scope: "model",
+      model: "priced/model",
+      message: "budget for priced/model of $1.0000 reached ($1.0000 spent)",
+    });
+    assert.equal(budget.check("other/model"), undefined);
+    budget.record("other/model", { costUSD: 1 });
+    assert.equal(budget.check("other/model")?.model, "other/model");
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CandidateSelector,
+  parseJudgeVerdict,
+  type HintCandidate,
+} from "../scripts/classes/CandidateSelector.js";
+import type { HintViolation } from "../scripts/classes/HintValidator.js";
+
+function candidate(
+  sample: number,
+  hint: string,
+  violations: HintViolation[] = [],
+): HintCandidate {
+  return {
+    sample,
+    hint,
+    validation: { compliant: violations.length === 0, violations },
+    leak: { leaked: false, matches: [] },
+    citations: { indexed: false, citations: [], hallucinated: [] },
+  };
+}
+
+describe("CandidateSelector", () => {
+  // Sample 2 of 3 failed, so the answers are samples 1 and 3
+  const answered = [candidate(0, "a longer hint"), candidate(2, "short")];
+
+  it("reports the kept candidate by its sample number", async () => {
+    const selection = await new CandidateSelector("shortest-compliant").select(
+      answered,
+    );
+    assert.equal(selection.selected, 2);
+    assert.match(selection.rationale, /sample 3/);
+  });
+
+  it("shows the judge the original sample numbers", async () => {
+    let shown: Map<number, number> | undefined;
+    const selection = await new CandidateSelector("judge").select(
+      answered,
+      async (candidates, eligible) => {
+        shown = new Map(
+          eligible.map((index) => [candidates[index]!.sample + 1, index]),
+        );
+        return parseJudgeVerdict("3\nIt is shorter.", shown);
+      },
+    );
+    assert.deepEqual([...shown!.keys()], [1, 3]);
+    assert.equal(selection.selected, 2);
+    assert.match(
+      selection.rationale,
+      /judge picked sample 3 of compliant 1, 3/,
+    );
+  });
+
+  it("falls back to fewest violations when the judge names a gap", async () => {
+    const selection = await new CandidateSelector("judge").select(
+      answered,
+      async () =>
+        parseJudgeVerdict(
+          "2",
+          new Map([
+            [1, 0],
+            [3, 1],
+          ]),
+        ),
+    );
+    assert.equal(selection.selected, 0);
+    assert.match(selection.rationale, /^judge failed/);
+  });
+
+  it("prefers a compliant candidate", async () => {
+    const selection = await new CandidateSelector("fewest-violations").select([
+      candidate(0, "one", [{ rule: "length", message: "too short" }]),
+      candidate(1, "two"),
+    ]);
+    assert.equal(selection.selected, 1);
+  });
+});
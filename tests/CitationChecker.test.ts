@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildSectionIndex,
+  CitationChecker,
+  formatCitations,
+} from "../scripts/classes/CitationChecker.js";
+
+const NUMBERED = `# Recipes
+
+## 1. Quantities
+
+### 1.2 Formatting
+
+## 2. Sorting
+`;
+
+const UNNUMBERED = `# Recipes
+
+## Quantities
+
+### Formatting
+
+## Sorting
+`;
+
+describe("buildSectionIndex", () => {
+  it("indexes numbered headings as written", () => {
+    assert.deepEqual(
+      [...buildSectionIndex(NUMBERED).keys()],
+      ["1", "1.2", "2"],
+    );
+    assert.equal(buildSectionIndex(NUMBERED).get("1.2")?.title, "Formatting");
+  });
+
+  it("numbers an unnumbered outline below a lone title", () => {
+    const index = buildSectionIndex(UNNUMBERED);
+    assert.deepEqual(
+      [...index.values()].map((entry) => `${entry.number} ${entry.title}`),
+      ["1 Quantities", "1.1 Formatting", "2 Sorting"],
+    );
+  });
+});
+
+describe("CitationChecker", () => {
+  const checker = new CitationChecker();
+
+  it("finds single, listed and § citations", () => {
+    assert.deepEqual(
+      checker.extractCitations(
+        "See section 1.2, then sections 2 and 3.1, and §4.",
+      ),
+      ["1.2", "2", "3.1", "4"],
+    );
+  });
+
+  it("flags cited sections the spec does not have", () => {
+    const result = checker.check(
+      "Re-read section 1.2 and section 9.9.",
+      NUMBERED,
+    );
+    assert.deepEqual(result.hallucinated, ["9.9"]);
+    assert.equal(formatCitations(result), "1.2 Formatting; 9.9 (not in spec)");
+  });
+
+  it("leaves citations unchecked without a spec", () => {
+    const result = checker.check("Re-read section 1.2.", "");
+    assert.equal(result.indexed, false);
+    assert.deepEqual(result.hallucinated, []);
+    assert.equal(formatCitations(result), "1.2 (unchecked)");
+  });
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CostEstimator,
+  DEFAULT_COMPLETION_TOKENS,
+} from "../scripts/classes/CostEstimator.js";
+import type { ModelPricing } from "../scripts/classes/providers/pricing.js";
+
+const PRICING: Record<string, ModelPricing> = {
+  "priced/model": { inputPerMillionUSD: 1_000, outputPerMillionUSD: 2_000 },
+};
+
+// 40 characters, estimated at 10 tokens
+const MESSAGES = [
+  { role: "system" as const, content: "x".repeat(20) },
+  { role: "user" as const, content: "y".repeat(20) },
+];
+
+function estimator(completionTokens: Record<string, number> = {}) {
+  return new CostEstimator((model) => PRICING[model], completionTokens);
+}
+
+describe("CostEstimator", () => {
+  it("prices each request from its messages and the expected completion", () => {
+    const costs = estimator({ "priced/model": 50 });
+    costs.addRequest("priced/model", "cot", MESSAGES);
+    costs.addRequest("priced/model", "cot", MESSAGES, 2);
+    costs.addSkipped("priced/model", "cot");
+
+    assert.deepEqual(costs.getEstimates(), [
+      {
+        model: "priced/model",
+        promptVariation: "cot",
+        requests: 3,
+        skipped: 1,
+        promptTokens: 30,
+        completionTokens: 150,
+        costUSD: 0.33,
+      },
+    ]);
+  });
+
+  it("assumes the default completion length for a model without history", () => {
+    const costs = estimator();
+    costs.addRequest("priced/model", "cot", MESSAGES);
+    assert.equal(
+      costs.getEstimates()[0]?.completionTokens,
+      DEFAULT_COMPLETION_TOKENS,
+    );
+  });
+
+  it("reports models without a price instead of counting them as free", () => {
+    const costs = estimator({ "priced/model": 50 });
+    costs.addRequest("priced/model", "cot", MESSAGES);
+    costs.addRequest("unpriced/model", "cot", MESSAGES);
+
+    const report = costs.formatReport();
+    assert.match(report, /unpriced\/model \+ cot: 1 request .*, no price/);
+    assert.match(report, /Total: 2 requests, ~\$0\.1100/);
+    assert.match(report, /No price known for unpriced\/model/);
+  });
+});
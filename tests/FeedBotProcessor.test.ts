@@ -0,0 +1,311 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  FeedBotProcessor,
+  type FeedBotConfig,
+} from "../scripts/classes/FeedBotProcessor.js";
+import { DEFAULT_REPAIR_CONFIG } from "../scripts/classes/ModelManager.js";
+import { formatFallbackFrequency } from "../scripts/classes/ResultsAggregator.js";
+import {
+  RESULTS_DB_FILE,
+  ResultsStore,
+} from "../scripts/classes/ResultsStore.js";
+import type { MockScript } from "../scripts/classes/providers/MockModelClient.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// Two rows to prompt and one the processor skips as ungraded
+const DATASET = path.join(__dirname, "fixtures/hw1_samples.csv");
+const MODEL = "mock/feedbot-template";
+const FALLBACK = "mock/feedbot-fallback";
+
+let outputDir: string;
+
+// A run against the mock provider that keeps everything in outputDir
+function mockConfig(
+  script: MockScript,
+  overrides: Partial<FeedBotConfig> = {},
+): FeedBotConfig {
+  return {
+    csvPath: DATASET,
+    outputDir,
+    models: [MODEL],
+    promptVariations: ["chain-of-thought"],
+    spec: {
+      offline: true,
+      allowMissing: true,
+      cacheDir: path.join(outputDir, "spec-cache"),
+    },
+    ...overrides,
+    modelConfig: {
+      provider: "mock",
+      apiKey: "",
+      mock: script,
+      repair: DEFAULT_REPAIR_CONFIG,
+      rateLimit: { maxConcurrency: 1, baseBackoffMs: 1, maxBackoffMs: 10 },
+      ...overrides.modelConfig,
+    },
+  };
+}
+
+function openStore(): ResultsStore {
+  return new ResultsStore(path.join(outputDir, RESULTS_DB_FILE));
+}
+
+describe("FeedBotProcessor with the mock provider", () => {
+  beforeEach(() => {
+    outputDir = mkdtempSync(path.join(tmpdir(), "feedbot-test-"));
+    // Runs log every row; keep the test output readable
+    for (const method of ["log", "warn", "error"] as const) {
+      mock.method(console, method, () => {});
+    }
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("retries a rate-limited request and stores the hint", async () => {
+    const processor = new FeedBotProcessor(
+      mockConfig({
+        faults: [{ kind: "rate-limit", calls: [1], retryAfterSeconds: 0 }],
+      }),
+    );
+    await processor.run();
+
+    const store = openStore();
+    const results = store.getResults();
+    store.close();
+    assert.equal(results.length, 2);
+    assert.ok(results.every((result) => result.status === "processed"));
+  });
+
+  it("asks again after a RETRY reply", async () => {
+    await new FeedBotProcessor(
+      mockConfig({ faults: [{ kind: "retry", calls: [1] }] }),
+    ).run();
+
+    const store = openStore();
+    const attempts = store
+      .getResults()
+      .map((result) => [result.status, result.entry.attempts]);
+    store.close();
+    assert.deepEqual(attempts, [
+      ["processed", 2],
+      ["processed", 1],
+    ]);
+  });
+
+  it("records a row as failed once its repairs run out", async () => {
+    await new FeedBotProcessor(mockConfig({ template: "Too short." })).run();
+
+    const store = openStore();
+    const [result] = store.getResults();
+    store.close();
+    assert.equal(result?.status, "failed");
+    assert.equal(result.entry.attempts, DEFAULT_REPAIR_CONFIG.maxAttempts);
+    assert.equal(
+      result.status === "failed" && result.entry.lastHint,
+      "Too short.",
+    );
+  });
+
+  it(
+    "resumes a cancelled run without redoing finished rows",
+    { timeout: 30_000 },
+    async () => {
+      const first = new FeedBotProcessor(mockConfig({ latencyMs: 300 }));
+      let finished = false;
+      const running = first.run().finally(() => {
+        finished = true;
+      });
+      // Cancel once the first row is stored, while the second is in flight
+      const watcher = openStore();
+      const deadline = Date.now() + 10_000;
+      while (
+        watcher.getResults().length === 0 &&
+        !finished &&
+        Date.now() < deadline
+      ) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      first.cancel();
+      await running;
+
+      const [done, ...rest] = watcher.getResults();
+      const runId = watcher.listRuns()[0]!.runId;
+      const status = watcher.requireRun(runId).status;
+      watcher.close();
+      assert.ok(done, "the first row was stored before the cancel");
+      assert.deepEqual(rest, []);
+      assert.equal(status, "cancelled");
+
+      await new FeedBotProcessor(mockConfig({}, { runId })).run();
+
+      const store = openStore();
+      const results = store.getResults({ runId });
+      const history = store.getHistory(done, done.fingerprint);
+      assert.equal(store.requireRun(runId).status, "completed");
+      store.close();
+      assert.equal(results.length, 2);
+      assert.equal(history.length, 1, "the finished row was not sent again");
+    },
+  );
+
+  it("keeps the usage of a failed row for the next run's budget", async () => {
+    // The first reply misses the rules and its repair request is refused
+    const script: MockScript = {
+      template: "Too short.",
+      faults: [{ kind: "unauthorized", calls: [2] }],
+      pricing: { inputPerMillionUSD: 1000, outputPerMillionUSD: 1000 },
+    };
+    await new FeedBotProcessor(mockConfig(script, { limit: 1 })).run();
+
+    const store = openStore();
+    const [failed] = store.getResults();
+    store.close();
+    assert.equal(failed?.status, "failed");
+    assert.ok(failed.entry.usage?.promptTokens, "the first reply is kept");
+
+    await new FeedBotProcessor(
+      mockConfig(script, { limit: 1, budget: { globalUSD: 0.01 } }),
+    ).run();
+
+    const after = openStore();
+    const runs = after.listRuns();
+    const history = after.getHistory(failed, failed.fingerprint);
+    after.close();
+    assert.equal(runs[1]?.status, "halted");
+    assert.equal(history.length, 1, "the row was not sent again");
+  });
+
+  it("aggregates results by combination", async () => {
+    await new FeedBotProcessor(
+      mockConfig(
+        {},
+        { promptVariations: ["chain-of-thought", "checklist-strategy"] },
+      ),
+    ).run();
+
+    const store = openStore();
+    const combinations = store.listCombinations();
+    const results = store.getResults();
+    store.close();
+    assert.deepEqual(
+      combinations.map((combination) => combination.promptVariation).sort(),
+      ["chain-of-thought", "checklist-strategy"],
+    );
+    for (const combination of combinations) {
+      assert.equal(
+        results.filter(
+          (result) => result.promptVariation === combination.promptVariation,
+        ).length,
+        2,
+      );
+    }
+  });
+
+  it("falls back when a model is unavailable and counts it", async () => {
+    const config = mockConfig(
+      { faults: [{ kind: "unavailable", model: MODEL }] },
+      {
+        promptVariations: ["chain-of-thought", "checklist-strategy"],
+        modelConfig: {
+          provider: "mock",
+          apiKey: "",
+          fallbacks: { [MODEL]: [{ model: FALLBACK }] },
+        },
+      },
+    );
+    await new FeedBotProcessor(config).run();
+
+    const store = openStore();
+    const stats = store.getFallbackStats();
+    store.close();
+    assert.deepEqual(
+      stats.map((stat) => [stat.hints, stat.fallbacks]),
+      [
+        [2, { [`mock:${FALLBACK}`]: 2 }],
+        [2, { [`mock:${FALLBACK}`]: 2 }],
+      ],
+    );
+    assert.equal(formatFallbackFrequency(stats).length, 2);
+  });
+
+  it("does not fall back on a fatal error", async () => {
+    const config = mockConfig(
+      { faults: [{ kind: "unauthorized", model: MODEL }] },
+      {
+        modelConfig: {
+          provider: "mock",
+          apiKey: "",
+          fallbacks: { [MODEL]: [{ model: FALLBACK }] },
+        },
+      },
+    );
+    await new FeedBotProcessor(config).run();
+
+    const store = openStore();
+    const results = store
+      .getResults()
+      .map((result) => [result.status, result.entry.servedBy]);
+    store.close();
+    assert.deepEqual(results, [
+      ["failed", undefined],
+      ["failed", undefined],
+    ]);
+  });
+
+  it("charges samples that answered when the row then fails", async () => {
+    // Both samples miss the rules, and the repair request is refused
+    const config = mockConfig(
+      {
+        template: "Too short.",
+        faults: [{ kind: "unauthorized", calls: [3] }],
+        pricing: { inputPerMillionUSD: 1000, outputPerMillionUSD: 1000 },
+      },
+      {
+        budget: { runUSD: 0.01 },
+        modelConfig: {
+          provider: "mock",
+          apiKey: "",
+          sampling: { samples: 2, scorer: "fewest-violations" },
+        },
+      },
+    );
+    await new FeedBotProcessor(config).run();
+
+    const store = openStore();
+    const [run] = store.listRuns();
+    const results = store.getResults();
+    store.close();
+    assert.equal(run!.status, "halted");
+    assert.equal(results.length, 1, "the second row was never sent");
+    assert.ok(results[0]?.entry.usage?.promptTokens);
+  });
+
+  it("fails a row once every sample fails", async () => {
+    const config = mockConfig(
+      { faults: [{ kind: "unauthorized", calls: [1, 2] }] },
+      {
+        limit: 1,
+        modelConfig: {
+          provider: "mock",
+          apiKey: "",
+          sampling: { samples: 2, scorer: "fewest-violations" },
+        },
+      },
+    );
+    await new FeedBotProcessor(config).run();
+
+    const store = openStore();
+    const [result] = store.getResults();
+    store.close();
+    assert.equal(result?.status, "failed");
+    assert.match(result.entry.reason, /^All 2 samples failed: /);
+  });
+});
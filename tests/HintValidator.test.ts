@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  HintValidator,
+  RETRY_SENTINEL,
+  splitSentences,
+} from "../scripts/classes/HintValidator.js";
+
+const COMPLIANT =
+  "Your conversion keeps a decimal point where the spec asks for whole units. " +
+  "Re-read the section on formatting quantities and compare it with your toString. " +
+  "Think about when a quantity should print without a fraction. " +
+  "Next step: write down how the spec formats a quantity of exactly one cup.";
+
+function rules(hint: string): string[] {
+  return new HintValidator().validate(hint).violations.map((v) => v.rule);
+}
+
+describe("splitSentences", () => {
+  it("does not split on section numbers or lowercase abbreviations", () => {
+    assert.deepEqual(
+      splitSentences("See section 5.3.5 first, e.g. the table. Then retry."),
+      ["See section 5.3.5 first, e.g. the table.", "Then retry."],
+    );
+  });
+});
+
+describe("HintValidator", () => {
+  it("accepts a hint that follows every rule", () => {
+    assert.deepEqual(new HintValidator().validate(COMPLIANT), {
+      compliant: true,
+      violations: [],
+    });
+  });
+
+  it("reports the RETRY sentinel on its own", () => {
+    assert.deepEqual(rules(RETRY_SENTINEL), ["retry"]);
+  });
+
+  it("flags markdown, links, line numbers and forbidden mentions", () => {
+    const hint = COMPLIANT.replace(
+      "your toString",
+      "`toString` on line 12 (see https://example.com) like the autograder",
+    );
+    assert.deepEqual(rules(hint), [
+      "markdown",
+      "links",
+      "line-numbers",
+      "forbidden-mentions",
+    ]);
+  });
+
+  it("requires three or four sentences ending in a next step", () => {
+    assert.deepEqual(rules("Check the spec. Then fix it."), [
+      "sentence-count",
+      "next-step",
+    ]);
+  });
+
+  it("runs added rules", () => {
+    const validator = new HintValidator([]);
+    validator.addRule({
+      id: "no-flour",
+      check: (hint) =>
+        hint.includes("flour")
+          ? [{ rule: "no-flour", message: "Mentions flour" }]
+          : [],
+    });
+    assert.equal(validator.validate("Add flour.").compliant, false);
+    assert.equal(validator.validate("Add sugar.").compliant, true);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LeakDetector } from "../scripts/classes/LeakDetector.js";
+import type { EvaluationRow } from "../scripts/classes/PromptGenerator.js";
+
+function row(name: string, output: string): EvaluationRow {
+  return {
+    name,
+    score: "0",
+    max_score: "5",
+    output,
+    is_active: true,
+    title: "",
+    profile_id: "",
+    id: "0",
+    part: "part1",
+    grader_result_id: "g0",
+    fingerprint: "fp",
+  };
+}
+
+const ASSERTION = row(
+  "MeasuredIngredient test 0",
+  "org.opentest4j.AssertionFailedError: expected: <1 cup flour> but was: <1.0 cup flour>\n" +
+    "\tat app//Foo.t(Foo.java:10)",
+);
+
+describe("LeakDetector", () => {
+  const detector = new LeakDetector();
+
+  it("takes expected and actual values from the assertion, not stack frames", () => {
+    assert.deepEqual(detector.extractCandidates(ASSERTION), [
+      { value: "1 cup flour", source: "expected" },
+      { value: "1.0 cup flour", source: "actual" },
+      { value: "1.0", source: "numeric" },
+    ]);
+  });
+
+  it("flags a hint that repeats the expected value", () => {
+    const result = detector.check(
+      "The test wants 1 cup flour, so look at how you print quantities.",
+      ASSERTION,
+    );
+    assert.equal(result.leaked, true);
+    assert.deepEqual(
+      result.matches.map((match) => [match.source, match.match]),
+      [
+        ["expected", "verbatim"],
+        ["actual", "near-verbatim"],
+      ],
+    );
+  });
+
+  it("catches quoted strings that differ only in case and quoting", () => {
+    const quoted = row(
+      "MeasuredIngredient test 4",
+      'expected: <"3/4 cup sugar"> but was: <"3/4 cups sugar">',
+    );
+    const result = detector.check("Your output says “3/4 CUPS sugar”.", quoted);
+    assert.equal(result.leaked, true);
+  });
+
+  it("passes a hint that only describes the problem", () => {
+    const result = detector.check(
+      "Compare how whole quantities are printed with what the spec asks for.",
+      ASSERTION,
+    );
+    assert.deepEqual(result, { leaked: false, matches: [] });
+  });
+
+  it("does not find a number inside a longer one", () => {
+    const numeric = row("Ratio test", "ratio was 1.5 for the batch");
+    assert.equal(
+      detector.check("Values like 11.55 are fine.", numeric).leaked,
+      false,
+    );
+    assert.equal(detector.check("It printed 1.5 again.", numeric).leaked, true);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  resolveGenerationParams,
+  resolveJudgeParams,
+} from "../scripts/classes/ModelManager.js";
+
+describe("resolveGenerationParams", () => {
+  it("leaves maxTokens to the provider by default", () => {
+    assert.deepEqual(resolveGenerationParams("gpt-4o", "chain-of-thought"), {
+      temperature: 0.2,
+    });
+  });
+
+  it("drops sampling parameters for reasoning models, prefixed or not", () => {
+    for (const model of ["gpt-5-mini", "openai/gpt-5-mini"]) {
+      assert.deepEqual(resolveGenerationParams(model, "chain-of-thought"), {
+        maxTokens: 4000,
+      });
+    }
+  });
+
+  it("applies variation settings over model ones and --max-tokens last", () => {
+    const params = resolveGenerationParams(
+      "gpt-4o",
+      "checklist-strategy",
+      {
+        models: { "gpt-4o": { temperature: 0.7, maxTokens: 300 } },
+        variations: { "checklist-strategy": { temperature: 0 } },
+      },
+      800,
+    );
+    assert.deepEqual(params, { temperature: 0, maxTokens: 800 });
+  });
+});
+
+describe("resolveJudgeParams", () => {
+  it("gives a judge greedy sampling without variation settings", () => {
+    const settings = {
+      models: { "gpt-4o": { maxTokens: 300 } },
+      variations: { "chain-of-thought": { temperature: 0.9 } },
+    };
+    assert.deepEqual(resolveJudgeParams("gpt-4o", settings), {
+      temperature: 0,
+      maxTokens: 300,
+    });
+    assert.deepEqual(resolveJudgeParams("gpt-5-mini"), { maxTokens: 4000 });
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  parseTemplate,
+  PromptTemplateLibrary,
+  renderTemplate,
+} from "../scripts/classes/PromptTemplates.js";
+
+const SOURCE = `---
+description: A test template
+version: 3
+---
+<!-- Authoring note -->
+Hello {{name}}.{{#if extra}} Extra: {{extra}}.{{/if}}
+`;
+
+describe("parseTemplate", () => {
+  it("reads front matter and drops comments from the body", () => {
+    const template = parseTemplate("greeting", SOURCE);
+    assert.equal(template.id, "greeting");
+    assert.equal(template.description, "A test template");
+    assert.equal(template.version, 3);
+    assert.equal(
+      template.template,
+      "Hello {{name}}.{{#if extra}} Extra: {{extra}}.{{/if}}",
+    );
+  });
+
+  it("hashes the body, so comments do not change the hash", () => {
+    const withoutComment = SOURCE.replace("<!-- Authoring note -->\n", "");
+    assert.equal(
+      parseTemplate("a", SOURCE).hash,
+      parseTemplate("a", withoutComment).hash,
+    );
+  });
+
+  it("rejects a non-integer version", () => {
+    assert.throws(
+      () => parseTemplate("bad", "---\nversion: 1.5\n---\nbody"),
+      /non-integer version/,
+    );
+  });
+});
+
+describe("renderTemplate", () => {
+  const template = parseTemplate("greeting", SOURCE);
+
+  it("fills placeholders and keeps sections whose variable is set", () => {
+    assert.equal(
+      renderTemplate(template, { name: "Ada", extra: "{{not a placeholder}}" }),
+      "Hello Ada. Extra: {{not a placeholder}}.",
+    );
+  });
+
+  it("drops sections whose variable is empty", () => {
+    assert.equal(
+      renderTemplate(template, { name: "Ada", extra: "" }),
+      "Hello Ada.",
+    );
+  });
+
+  it("throws on unfilled placeholders", () => {
+    assert.throws(
+      () => renderTemplate(template, { extra: "" }),
+      /unfilled placeholders: name/,
+    );
+  });
+});
+
+describe("PromptTemplateLibrary", () => {
+  const library = new PromptTemplateLibrary();
+
+  it("loads the shipped strategies by name", () => {
+    assert.ok(library.listStrategies().includes("chain-of-thought"));
+    assert.equal(
+      library.getStrategy("chain-of-thought").id,
+      "chain-of-thought",
+    );
+  });
+
+  it("names the known variations when one is missing", () => {
+    assert.throws(
+      () => library.getStrategy("no-such-strategy"),
+      /Known variations: .*chain-of-thought/,
+    );
+  });
+});
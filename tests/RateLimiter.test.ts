@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { RateLimiter } from "../scripts/classes/RateLimiter.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("drops a queued request whose signal aborts", async () => {
+    const limiter = new RateLimiter("test", { maxConcurrency: 1 });
+    let finish!: () => void;
+    const first = limiter.run(
+      () =>
+        new Promise((resolve) => {
+          finish = () => resolve({ content: "first" });
+        }),
+    );
+
+    const controller = new AbortController();
+    let sent = false;
+    const queued = limiter.run(async () => {
+      sent = true;
+      return { content: "queued" };
+    }, controller.signal);
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(queued, /cancelled/);
+
+    finish();
+    assert.equal((await first).content, "first");
+    assert.equal(
+      (await limiter.run(async () => ({ content: "next" }))).content,
+      "next",
+    );
+    assert.equal(sent, false);
+  });
+
+  // Uncapped, the retry would wait ten minutes
+  it(
+    "caps a Retry-After pause at maxBackoffMs",
+    { timeout: 5_000 },
+    async () => {
+      const limiter = new RateLimiter("test", {
+        maxConcurrency: 1,
+        maxBackoffMs: 20,
+      });
+      let calls = 0;
+      const result = await limiter.run(async () => {
+        if (calls++ === 0) {
+          throw Object.assign(new Error("429 Too Many Requests"), {
+            status: 429,
+            headers: { "retry-after": "600" },
+          });
+        }
+        return { content: "ok" };
+      });
+
+      assert.equal(result.content, "ok");
+      assert.equal(calls, 2);
+    },
+  );
+
+  it("does not retry a fatal error", async () => {
+    const limiter = new RateLimiter("test", { maxConcurrency: 1 });
+    let calls = 0;
+    await assert.rejects(
+      limiter.run(async () => {
+        calls++;
+        throw Object.assign(new Error("401 Unauthorized"), { status: 401 });
+      }),
+      /401/,
+    );
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RETRY_SENTINEL } from "../scripts/classes/HintValidator.js";
+import { ReprocessSelector } from "../scripts/classes/ReprocessSelector.js";
+import type { ProcessedEntry } from "../scripts/classes/ResultsStore.js";
+
+const COMPLIANT =
+  "Your conversion keeps a decimal point where the spec asks for whole units. " +
+  "Re-read the section on formatting quantities and compare it with your toString. " +
+  "Think about when a quantity should print without a fraction. " +
+  "Next step: write down how the spec formats a quantity of exactly one cup.";
+
+function entry(overrides: Partial<ProcessedEntry> = {}): ProcessedEntry {
+  return {
+    hint: COMPLIANT,
+    timestamp: "2026-02-01T00:00:00.000Z",
+    promptHash: "abcdef0123456789",
+    ...overrides,
+  };
+}
+
+describe("ReprocessSelector", () => {
+  it("keeps a hint no criterion matches", () => {
+    const selector = new ReprocessSelector({
+      failedValidation: true,
+      before: "2026-01-01",
+      promptHash: "ffff",
+      retry: true,
+      emptyHint: true,
+    });
+    assert.equal(selector.reason("fp", entry()), null);
+  });
+
+  it("names the first criterion that matches", () => {
+    const selector = new ReprocessSelector({
+      fingerprints: ["listed"],
+      emptyHint: true,
+      retry: true,
+      before: "2026-03-01",
+      promptHash: "abcd",
+    });
+    assert.equal(selector.reason("listed", entry()), "listed fingerprint");
+    assert.equal(selector.reason("fp", entry({ hint: " " })), "empty hint");
+    assert.equal(
+      selector.reason("fp", entry({ hint: RETRY_SENTINEL })),
+      `contains ${RETRY_SENTINEL}`,
+    );
+    assert.equal(selector.reason("fp", entry()), "generated before 2026-03-01");
+    assert.equal(
+      selector.reason("fp", entry({ timestamp: "2026-04-01T00:00:00.000Z" })),
+      "prompt hash abcdef012345",
+    );
+  });
+
+  it("validates entries stored without a validation result", () => {
+    const selector = new ReprocessSelector({ failedValidation: true });
+    assert.equal(
+      selector.reason("fp", entry({ hint: "Use `Math.round` here." })),
+      "failed validation",
+    );
+    assert.equal(
+      selector.reason(
+        "fp",
+        entry({ validation: { compliant: true, violations: [] } }),
+      ),
+      null,
+    );
+  });
+
+  it("rejects an unparseable date", () => {
+    assert.throws(
+      () => new ReprocessSelector({ before: "yesterday" }),
+      /Invalid reprocess date/,
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ResultsStore } from "../scripts/classes/ResultsStore.js";
+
+const COMBINATION = { model: "mock/feedbot-template", promptVariation: "cot" };
+
+describe("ResultsStore", () => {
+  let dir: string;
+  let dbPath: string;
+
+  // Open the database directly, run fn and close it again
+  function withDatabase<T>(fn: (db: Database.Database) => T): T {
+    const db = new Database(dbPath);
+    try {
+      return fn(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "feedbot-store-"));
+    dbPath = path.join(dir, "feedbot.db");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("upgrades a database from an earlier schema version", () => {
+    new ResultsStore(dbPath).close();
+    const current = withDatabase(
+      (db) => db.pragma("user_version", { simple: true }) as number,
+    );
+    // Version 6 did not have the prompt_reconstructed column yet
+    withDatabase((db) => {
+      db.exec("ALTER TABLE hints DROP COLUMN prompt_reconstructed");
+      db.pragma("user_version = 6");
+    });
+
+    new ResultsStore(dbPath).close();
+    const version = withDatabase((db) =>
+      db.pragma("user_version", { simple: true }),
+    );
+    const columns = withDatabase(
+      (db) => db.pragma("table_info(hints)") as Array<{ name: string }>,
+    );
+    assert.equal(version, current);
+    assert.ok(columns.some((column) => column.name === "prompt_reconstructed"));
+  });
+
+  it("keeps replaced results and later failures as history", () => {
+    const store = new ResultsStore(dbPath);
+    const usage = { promptTokens: 100, completionTokens: 50, totalTokens: 150 };
+    store.recordFailed(COMBINATION, "fp", {
+      reason: "repairs exhausted",
+      timestamp: "2026-01-01T00:00:00.000Z",
+      attempts: 3,
+      usage,
+    });
+    store.recordProcessed(COMBINATION, "fp", {
+      hint: "first",
+      timestamp: "2026-01-02T00:00:00.000Z",
+    });
+    store.recordProcessed(COMBINATION, "fp", {
+      hint: "second",
+      timestamp: "2026-01-03T00:00:00.000Z",
+    });
+    store.recordFailed(COMBINATION, "fp", {
+      reason: "repairs exhausted",
+      timestamp: "2026-01-04T00:00:00.000Z",
+      attempts: 3,
+      usage,
+    });
+
+    const current = store.getResult(COMBINATION, "fp");
+    const history = store.getHistory(COMBINATION, "fp");
+    store.close();
+    assert.equal(
+      current?.status === "processed" && current.entry.hint,
+      "second",
+    );
+    assert.deepEqual(
+      history.map((result) => [result.status, result.supersededAt]),
+      [
+        ["failed", "2026-01-02T00:00:00.000Z"],
+        ["processed", "2026-01-03T00:00:00.000Z"],
+        ["processed", undefined],
+        ["failed", "2026-01-04T00:00:00.000Z"],
+      ],
+    );
+    assert.deepEqual(history[0]!.entry.usage, usage);
+    assert.deepEqual(history[3]!.entry.usage, usage);
+  });
+
+  it("refuses a database from a newer schema", () => {
+    withDatabase((db) => db.pragma("user_version = 99"));
+    assert.throws(() => new ResultsStore(dbPath), /newer than this code/);
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  it,
+  mock,
+} from "node:test";
+import { hashContent } from "../scripts/classes/PromptTemplates.js";
+import {
+  SpecLoader,
+  SpecUnavailableError,
+} from "../scripts/classes/SpecLoader.js";
+
+const SPEC = "# Recipes\n\n## 1. Quantities\n";
+
+describe("SpecLoader", () => {
+  let dir: string;
+  let server: Server;
+  let url: string;
+  let requests: Array<string | undefined>; // If-None-Match of each request
+  let serverDown = false;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      requests.push(request.headers["if-none-match"]);
+      if (serverDown) {
+        response.writeHead(503).end();
+      } else if (request.headers["if-none-match"] === '"v1"') {
+        response.writeHead(304).end();
+      } else {
+        response.writeHead(200, { ETag: '"v1"' }).end(SPEC);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/spec.md`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "feedbot-spec-"));
+    requests = [];
+    serverDown = false;
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a local file and hashes its content", async () => {
+    const file = path.join(dir, "spec.md");
+    writeFileSync(file, SPEC);
+    assert.deepEqual(await new SpecLoader().load(file), {
+      source: file,
+      content: SPEC,
+      hash: hashContent(SPEC),
+      origin: "file",
+    });
+  });
+
+  it("caches a fetched spec and revalidates it with its ETag", async () => {
+    const cacheDir = path.join(dir, "cache");
+    const fetched = await new SpecLoader({ cacheDir }).load(url);
+    const revalidated = await new SpecLoader({ cacheDir }).load(url);
+    const offline = await new SpecLoader({ cacheDir, offline: true }).load(url);
+
+    assert.equal(fetched.origin, "network");
+    assert.equal(revalidated.origin, "cache");
+    assert.equal(offline.origin, "cache");
+    assert.equal(offline.content, SPEC);
+    assert.deepEqual(requests, [undefined, '"v1"']);
+  });
+
+  it("keeps every source in the index when loads overlap", async () => {
+    const cacheDir = path.join(dir, "cache");
+    const other = url.replace("spec.md", "other.md");
+    const loader = new SpecLoader({ cacheDir });
+    await Promise.all([loader.load(url), loader.load(other)]);
+
+    const offline = new SpecLoader({ cacheDir, offline: true });
+    const specs = await Promise.all([offline.load(url), offline.load(other)]);
+    assert.deepEqual(
+      specs.map((spec) => spec.origin),
+      ["cache", "cache"],
+    );
+  });
+
+  it("fetches again when the cache index is unreadable", async () => {
+    const cacheDir = path.join(dir, "cache");
+    await new SpecLoader({ cacheDir }).load(url);
+    writeFileSync(path.join(cacheDir, "index.json"), '{"truncated');
+    const spec = await new SpecLoader({ cacheDir }).load(url);
+    assert.equal(spec.origin, "network");
+  });
+
+  it("falls back to the cache when the server fails", async () => {
+    const cacheDir = path.join(dir, "cache");
+    await new SpecLoader({ cacheDir }).load(url);
+    serverDown = true;
+    const spec = await new SpecLoader({ cacheDir }).load(url);
+    assert.equal(spec.origin, "cache");
+    assert.equal(spec.content, SPEC);
+  });
+
+  it("loads each source once per loader", async () => {
+    const loader = new SpecLoader({ cacheDir: path.join(dir, "cache") });
+    await Promise.all([loader.load(url), loader.load(url)]);
+    assert.equal(requests.length, 1);
+  });
+
+  it("fails offline without a cached copy unless missing specs are allowed", async () => {
+    const options = { cacheDir: path.join(dir, "cache"), offline: true };
+    await assert.rejects(
+      new SpecLoader(options).load(url),
+      SpecUnavailableError,
+    );
+    const missing = await new SpecLoader({
+      ...options,
+      allowMissing: true,
+    }).load(url);
+    assert.deepEqual(missing, {
+      source: url,
+      content: "",
+      hash: "none",
+      origin: "none",
+    });
+    assert.deepEqual(requests, []);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EvaluationRow } from "../scripts/classes/PromptGenerator.js";
+import {
+  flattenSections,
+  parseSpecSections,
+  SpecSlicer,
+} from "../scripts/classes/SpecSlicer.js";
+
+const SPEC = `Preamble text.
+
+# Recipes
+
+Build a recipe book.
+
+## 1. MeasuredIngredient
+
+Stores a quantity and a unit. MeasuredIngredient.toString prints both.
+
+\`\`\`
+# not a heading
+\`\`\`
+
+## 2. RecipeBook
+
+Holds recipes.
+
+### 2.1 Sorting
+
+Sort recipes by name.
+`;
+
+function row(name: string, output: string): EvaluationRow {
+  return {
+    name,
+    score: "0",
+    max_score: "5",
+    output,
+    is_active: true,
+    title: "",
+    profile_id: "",
+    id: "0",
+    part: "part1",
+    grader_result_id: "g0",
+    fingerprint: "fp",
+  };
+}
+
+describe("parseSpecSections", () => {
+  it("builds a heading tree and ignores headings in code fences", () => {
+    const titles = flattenSections(parseSpecSections(SPEC)).map(
+      (section) => `${section.level} ${section.title}`,
+    );
+    assert.deepEqual(titles, [
+      "0 ",
+      "1 Recipes",
+      "2 1. MeasuredIngredient",
+      "2 2. RecipeBook",
+      "3 2.1 Sorting",
+    ]);
+  });
+});
+
+describe("SpecSlicer", () => {
+  const slicer = new SpecSlicer({ tokenBudget: 1000 });
+
+  it("takes class and method names from the row, not JUnit plumbing", () => {
+    const terms = slicer.extractTerms(
+      row(
+        "MeasuredIngredient test 0",
+        "AssertionFailedError in MeasuredIngredient.toString",
+      ),
+    );
+    assert.deepEqual(terms, ["MeasuredIngredient", "toString"]);
+  });
+
+  it("keeps the intro and the matching sections in document order", () => {
+    const slice = slicer.slice(SPEC, row("MeasuredIngredient test 0", ""));
+    assert.equal(slice.summary.mode, "sliced");
+    assert.deepEqual(slice.summary.sections, [
+      "Recipes",
+      "1. MeasuredIngredient",
+    ]);
+    assert.ok(slice.content.startsWith("Preamble text."));
+    assert.ok(!slice.content.includes("Holds recipes."));
+    assert.ok(slice.summary.tokens < slice.summary.fullTokens);
+  });
+
+  it("sends the full spec when nothing matches the row", () => {
+    const slice = slicer.slice(SPEC, row("Unrelated test", "boom"));
+    assert.equal(slice.summary.mode, "full-fallback");
+    assert.equal(slice.content, SPEC);
+  });
+
+  it("falls back when no matching section fits the budget", () => {
+    const tiny = new SpecSlicer({ tokenBudget: 1 });
+    const slice = tiny.slice(SPEC, row("MeasuredIngredient test 0", ""));
+    assert.equal(slice.summary.mode, "full-fallback");
+  });
+});
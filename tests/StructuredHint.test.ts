@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { after, describe, it } from "node:test";
+import { AssignmentRegistry } from "../scripts/classes/AssignmentRegistry.js";
+import {
+  PromptGenerator,
+  type EvaluationRow,
+} from "../scripts/classes/PromptGenerator.js";
+import { PromptTemplateLibrary } from "../scripts/classes/PromptTemplates.js";
+import { SpecLoader } from "../scripts/classes/SpecLoader.js";
+import {
+  parseStructuredHint,
+  StructuredHintError,
+} from "../scripts/classes/StructuredHint.js";
+
+const HINT =
+  "Your quantity keeps its fraction. Re-read the formatting rules. Next step: format one cup by hand.";
+
+describe("parseStructuredHint", () => {
+  it("reads the hint and its diagnosis", () => {
+    const parsed = parseStructuredHint(
+      JSON.stringify({
+        category: "other",
+        location: "Recipe.scale",
+        spec_section: "5.3",
+        hint: HINT,
+        next_step: "format one cup by hand.",
+      }),
+    );
+    assert.deepEqual(parsed, {
+      hint: HINT,
+      diagnosis: {
+        category: "other",
+        location: "Recipe.scale",
+        specSection: "5.3",
+        nextStep: "format one cup by hand.",
+      },
+    });
+  });
+
+  it("tolerates fences, trailing commas and alternate field names", () => {
+    const parsed = parseStructuredHint(
+      '```json\n{"message": "Check the rounding.", "nextStep": "Next step: round once.", "category": "made-up",}\n```',
+    );
+    assert.equal(parsed.hint, "Check the rounding. Next step: round once.");
+    assert.equal(parsed.diagnosis.category, "other");
+    assert.equal(parsed.diagnosis.location, "");
+  });
+
+  it("rejects a response without a JSON object or a hint", () => {
+    assert.throws(() => parseStructuredHint("RETRY"), StructuredHintError);
+    assert.throws(
+      () => parseStructuredHint('{"category": "other"}'),
+      /no "hint" field/,
+    );
+  });
+});
+
+describe("PromptGenerator output modes", () => {
+  const cacheDir = mkdtempSync(path.join(tmpdir(), "feedbot-prompt-"));
+  const row: EvaluationRow = {
+    name: "MeasuredIngredient test 0",
+    score: "0",
+    max_score: "5",
+    output: "AssertionFailedError",
+    is_active: true,
+    title: "",
+    profile_id: "",
+    id: "0",
+    part: "part1",
+    grader_result_id: "g0",
+    fingerprint: "fp",
+  };
+
+  function generator(outputMode: "prose" | "json"): PromptGenerator {
+    return new PromptGenerator(
+      new AssignmentRegistry("hw1_samples.csv"),
+      new PromptTemplateLibrary(),
+      new SpecLoader({ cacheDir, offline: true, allowMissing: true }),
+      undefined,
+      outputMode,
+    );
+  }
+
+  after(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("asks for plain prose only in prose mode", async () => {
+    const prose = await generator("prose").generate(row, "chain-of-thought");
+    const json = await generator("json").generate(row, "chain-of-thought");
+
+    assert.match(prose.system, /Output ONLY the student-facing message/);
+    assert.doesNotMatch(prose.user, /<json_output>/);
+    assert.doesNotMatch(json.system, /Output ONLY the student-facing message/);
+    assert.doesNotMatch(json.system, /No code fences/);
+    assert.match(json.system, /Reply with the JSON object/);
+    assert.match(json.user, /<json_output>/);
+  });
+});